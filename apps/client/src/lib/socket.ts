@@ -1,6 +1,7 @@
 import { io, type Socket } from 'socket.io-client';
 import { writable, type Writable } from 'svelte/store';
-import type { MatchState } from '@jaysgame/shared';
+import { goto } from '$app/navigation';
+import type { LatencyPingPayload, MatchRematchPayload, MatchState } from '@jaysgame/shared';
 
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3001';
 
@@ -16,6 +17,15 @@ export const socketStore: Writable<SocketStore> = writable({
   matchState: null,
 });
 
+/**
+ * Check whether an incoming state is older than the one already held
+ */
+function isStaleState(current: MatchState | null, incoming: MatchState): boolean {
+  return (
+    current !== null && current.matchId === incoming.matchId && incoming.version < current.version
+  );
+}
+
 /**
  * Initialize Socket.IO connection
  */
@@ -41,10 +51,29 @@ export function initSocket(token?: string): Socket {
     console.error('Socket error:', error);
   });
 
-  // Listen for state updates
+  // Listen for state updates, ignoring any that arrive out of order
   socket.on('state:update', (state: MatchState) => {
-    console.log('State update:', state.phase);
-    socketStore.update((store) => ({ ...store, matchState: state }));
+    console.log('State update:', state.phase, `v${state.version}`);
+    socketStore.update((store) => {
+      if (isStaleState(store.matchState, state)) {
+        return store;
+      }
+      return { ...store, matchState: state };
+    });
+  });
+
+  // Echo latency probes straight back so the server can time the round trip
+  socket.on('latency:ping', (data: LatencyPingPayload) => {
+    socket.emit('latency:pong', { pingId: data.pingId });
+  });
+
+  // The host started a rematch: follow it to the new lobby as the same player
+  socket.on('match:rematch', (data: MatchRematchPayload) => {
+    const playerId = new URLSearchParams(window.location.search).get('player');
+    const newPlayerId = playerId ? data.playerIds[playerId] : undefined;
+    if (newPlayerId) {
+      goto(`/lobby?match=${data.matchId}&player=${newPlayerId}`);
+    }
   });
 
   socketStore.update((state) => ({ ...state, socket }));
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Pack" ADD COLUMN     "tiebreak" JSONB;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "MatchEvent" (
+    "id" TEXT NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "seq" SERIAL NOT NULL,
+    "type" TEXT NOT NULL,
+    "actorId" TEXT,
+    "payload" JSONB NOT NULL,
+    "state" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MatchEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MatchEvent_matchId_seq_idx" ON "MatchEvent"("matchId", "seq");
+
+-- AddForeignKey
+ALTER TABLE "MatchEvent" ADD CONSTRAINT "MatchEvent_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match"("id") ON DELETE CASCADE ON UPDATE CASCADE;
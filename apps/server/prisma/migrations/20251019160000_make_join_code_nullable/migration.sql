@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Match" ALTER COLUMN "joinCode" DROP NOT NULL;
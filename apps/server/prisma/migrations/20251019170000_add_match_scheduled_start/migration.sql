@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN     "scheduledStartAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Match_hostId_scheduledStartAt_idx" ON "Match"("hostId", "scheduledStartAt");
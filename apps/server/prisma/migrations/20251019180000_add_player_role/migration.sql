@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "PlayerRole" AS ENUM ('PLAYER', 'SPECTATOR', 'WAITLISTED');
+
+-- AlterTable
+ALTER TABLE "MatchPlayer" ADD COLUMN     "role" "PlayerRole" NOT NULL DEFAULT 'PLAYER';
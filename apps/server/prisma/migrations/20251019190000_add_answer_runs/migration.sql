@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "MatchAnswer" ADD COLUMN     "runsAwarded" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "speedBonus" BOOLEAN NOT NULL DEFAULT false;
+
+-- Backfill runs for existing answers: 4 for a bonus, 1 for a correct answer
+UPDATE "MatchAnswer" SET "runsAwarded" = CASE
+  WHEN "isCorrect" AND "bonusAwarded" THEN 4
+  WHEN "isCorrect" THEN 1
+  ELSE 0
+END;
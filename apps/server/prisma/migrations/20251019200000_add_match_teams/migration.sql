@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "MatchPlayer" ADD COLUMN     "teamId" TEXT;
+
+-- CreateTable
+CREATE TABLE "MatchTeam" (
+    "id" TEXT NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MatchTeam_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MatchPlayer_teamId_idx" ON "MatchPlayer"("teamId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MatchTeam_matchId_name_key" ON "MatchTeam"("matchId", "name");
+
+-- AddForeignKey
+ALTER TABLE "MatchPlayer" ADD CONSTRAINT "MatchPlayer_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "MatchTeam"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MatchTeam" ADD CONSTRAINT "MatchTeam_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "MatchAnswer" ADD COLUMN     "wager" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "MatchAnswer" ADD COLUMN     "streakBonus" BOOLEAN NOT NULL DEFAULT false;
@@ -14,6 +14,7 @@ const envSchema = z.object({
   CORS_ORIGIN: z.string(),
   RATE_LIMIT_WINDOW_MS: z.string().transform(Number).default('900000'),
   RATE_LIMIT_MAX_REQUESTS: z.string().transform(Number).default('100'),
+  MATCH_IDLE_TIMEOUT_MIN: z.string().transform(Number).default('30'),
 });
 
 const parsed = envSchema.safeParse(process.env);
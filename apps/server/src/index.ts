@@ -2,6 +2,9 @@ import { createServer } from 'http';
 import { createApp } from './app';
 import { env } from './config/env';
 import { initializeSocket } from './socket';
+import { startMatchReaper, stopMatchReaper } from './services/lifecycle.service';
+import { startScheduler, stopScheduler } from './services/scheduler.service';
+import { registerMatchJobHandlers } from './services/state-machine.service';
 
 const app = createApp();
 const httpServer = createServer(app);
@@ -12,6 +15,18 @@ const io = initializeSocket(httpServer);
 // Export io for use in other modules
 export { io };
 
+// Run match timers (question timeouts, stretch, auto-advance) from Redis
+registerMatchJobHandlers();
+startScheduler();
+
+// Abandon matches whose host left and never came back
+startMatchReaper();
+
+process.on('SIGTERM', () => {
+  stopScheduler();
+  stopMatchReaper();
+});
+
 // Start server
 httpServer.listen(env.PORT, () => {
   console.info(`
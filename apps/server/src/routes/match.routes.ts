@@ -1,15 +1,20 @@
 import { Router, type Request, type Response } from 'express';
 import { z } from 'zod';
+import type { MatchSettings } from '@jaysgame/shared';
 import { authenticate } from '../middleware/auth';
 import {
   createMatch,
   getMatchById,
   getMatchByJoinCode,
   getUserMatches,
+  getScheduledMatches,
+  getScheduledMatchesCalendar,
   updateMatchStatus,
   deleteMatch,
   getMatchSummary,
 } from '../services/match.service';
+import { getMatchEvents, replayMatchState } from '../services/event.service';
+import { MAX_TEAM_NAME_LENGTH } from '../services/team.service';
 
 const router = Router();
 
@@ -23,12 +28,71 @@ const createMatchSchema = z.object({
     .object({
       grandSlam: z.boolean().optional(),
       speedBonus: z.boolean().optional(),
+      speedBonusCount: z.number().int().min(1).max(20).optional(),
+      speedBonusRuns: z.number().int().min(1).max(4).optional(),
+      streakBonus: z.boolean().optional(),
+      streakBonusLength: z.number().int().min(2).max(20).optional(),
+      streakBonusRuns: z.number().int().min(1).max(4).optional(),
+      scoring: z.enum(['classic', 'chill', 'hardcore']).optional(),
       timerSec: z.number().int().min(5).max(60).optional(),
       allowReactions: z.boolean().optional(),
       allowHeckles: z.boolean().optional(),
       showMap: z.boolean().optional(),
+      autoReveal: z.boolean().optional(),
+      autopilot: z
+        .object({
+          enabled: z.boolean(),
+          revealDwellSec: z.number().int().min(0).max(120),
+          inningBreakSec: z.number().int().min(0).max(600),
+          stretch: z.boolean(),
+        })
+        .partial()
+        .optional(),
+      join: z
+        .object({
+          policy: z.enum(['open', 'until_inning', 'lobby_only', 'spectate_late']),
+          untilInning: z.number().int().min(1).max(9),
+          maxPlayers: z.number().int().min(1).max(500).nullable(),
+        })
+        .partial()
+        .optional(),
+      teams: z
+        .object({
+          enabled: z.boolean(),
+          scoring: z.enum(['best_answer', 'majority', 'sum']),
+          allowPlayerTeams: z.boolean(),
+        })
+        .partial()
+        .optional(),
     })
     .optional(),
+  teams: z.array(z.string().trim().min(1).max(MAX_TEAM_NAME_LENGTH)).max(20).optional(),
+  scheduledStartAt: z.coerce
+    .date()
+    .refine((date) => date.getTime() > Date.now(), 'Scheduled start must be in the future')
+    .optional(),
+});
+
+/**
+ * Validation schema for reading the match event log
+ */
+const matchEventsQuerySchema = z.object({
+  after: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+/**
+ * Validation schema for replaying match state
+ * `at` is an ISO date or epoch milliseconds; defaults to now
+ */
+const replayQuerySchema = z.object({
+  at: z
+    .string()
+    .optional()
+    .transform((value) =>
+      value ? new Date(/^\d+$/.test(value) ? Number(value) : value) : new Date()
+    )
+    .refine((date) => !isNaN(date.getTime()), 'Invalid timestamp'),
 });
 
 /**
@@ -89,6 +153,58 @@ router.get('/my', authenticate, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/matches/scheduled
+ * Get upcoming scheduled matches hosted by authenticated user
+ */
+router.get('/scheduled', authenticate, async (req: Request, res: Response) => {
+  try {
+    const hostId = req.user!.userId;
+    const matches = await getScheduledMatches(hostId);
+
+    res.json({
+      success: true,
+      data: matches,
+    });
+  } catch (error) {
+    console.error('Error fetching scheduled matches:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch scheduled matches',
+    });
+  }
+});
+
+/**
+ * GET /api/matches/hosts/:hostId/calendar.ics
+ * iCalendar feed of a host's upcoming scheduled matches (public, for venue listings)
+ */
+router.get('/hosts/:hostId/calendar.ics', async (req: Request, res: Response) => {
+  try {
+    const { hostId } = req.params;
+    const calendar = await getScheduledMatchesCalendar(hostId);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="matches.ics"');
+    res.send(calendar);
+  } catch (error) {
+    console.error('Error exporting match calendar:', error);
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to export calendar',
+    });
+  }
+});
+
 /**
  * GET /api/matches/:id
  * Get match details by ID
@@ -138,6 +254,7 @@ router.get('/join/:code', async (req: Request, res: Response) => {
 
     // Only return necessary information for joining
     const pack = match.pack as { meta: { title: string; sport: string; team: string } };
+    const settings = match.settings as unknown as MatchSettings;
     res.json({
       success: true,
       data: {
@@ -150,6 +267,13 @@ router.get('/join/:code', async (req: Request, res: Response) => {
           sport: pack.meta.sport,
           team: pack.meta.team,
         },
+        // Teams players can pick from, for matches played in teams
+        teams: settings.teams?.enabled
+          ? {
+              names: match.teams.map((team) => team.name),
+              allowPlayerTeams: settings.teams.allowPlayerTeams,
+            }
+          : null,
       },
     });
   } catch (error) {
@@ -183,6 +307,115 @@ router.get('/:id/summary', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/matches/:id/events
+ * Get the match event log (host only)
+ */
+router.get('/:id/events', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const validation = matchEventsQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: validation.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    // Verify host owns the match
+    const match = await getMatchById(id);
+    if (!match) {
+      res.status(404).json({
+        success: false,
+        error: 'Match not found',
+      });
+      return;
+    }
+
+    if (match.hostId !== req.user!.userId) {
+      res.status(403).json({
+        success: false,
+        error: 'Unauthorized: You do not host this match',
+      });
+      return;
+    }
+
+    const events = await getMatchEvents(id, validation.data);
+
+    res.json({
+      success: true,
+      data: events,
+    });
+  } catch (error) {
+    console.error('Error fetching match events:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch match events',
+    });
+  }
+});
+
+/**
+ * GET /api/matches/:id/replay?at=<timestamp>
+ * Rebuild the match state as it was at a point in time (host only)
+ */
+router.get('/:id/replay', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const validation = replayQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: validation.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    // Verify host owns the match
+    const match = await getMatchById(id);
+    if (!match) {
+      res.status(404).json({
+        success: false,
+        error: 'Match not found',
+      });
+      return;
+    }
+
+    if (match.hostId !== req.user!.userId) {
+      res.status(403).json({
+        success: false,
+        error: 'Unauthorized: You do not host this match',
+      });
+      return;
+    }
+
+    const state = await replayMatchState(id, validation.data.at);
+    if (!state) {
+      res.status(404).json({
+        success: false,
+        error: 'No recorded state at that time',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: state,
+    });
+  } catch (error) {
+    console.error('Error replaying match state:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to replay match state',
+    });
+  }
+});
+
 /**
  * PATCH /api/matches/:id/status
  * Update match status
@@ -1,12 +1,24 @@
 import { PrismaClient } from '@prisma/client';
 import type { Question, MatchSettings, AnswerSubmitPayload } from '@jaysgame/shared';
 import { redisClient } from '../config/redis';
+import { getClosestDistance, gradeClosestGuess } from './closest.service';
+import { recordMatchEvent } from './event.service';
+import { recordAnswerScore } from './leaderboard.service';
+import { gradeMapAnswer } from './map.service';
+import { getScoringPolicy, settleWager } from './scoring.service';
 import { isAnswerCorrect, getCorrectAnswer } from './question.service';
 
 const prisma = new PrismaClient();
 
+// Choice recorded for a player who staked on a wager question but never answered it
+export const NO_ANSWER = '';
+
 export interface SubmitAnswerRequest extends AnswerSubmitPayload {
   playerId: string;
+  // Measured on the server, see measureAnswerMs
+  answerMs: number;
+  // Runs the player staked, for a wager question
+  wager?: number;
 }
 
 export interface SubmitAnswerResult {
@@ -18,57 +30,23 @@ export interface SubmitAnswerResult {
 }
 
 /**
- * Calculate runs awarded for a correct answer
+ * Measure how long a player took to answer
+ * Time from the question being shown to the answer arriving, less the socket's
+ * one-way latency estimate, clamped to the question timer. Without a recorded
+ * shownAt the answer gets no speed advantage.
  */
-function calculateRuns(
-  isCorrect: boolean,
-  answerMs: number,
-  settings: MatchSettings,
-  isGrandSlam: boolean
-): { runs: number; bonusAwarded: boolean } {
-  if (!isCorrect) {
-    return { runs: 0, bonusAwarded: false };
-  }
-
-  // Base run for correct answer
-  let runs = 1;
-  let bonusAwarded = false;
-
-  // Grand Slam bonus (4 runs instead of 1)
-  if (settings.grandSlam && isGrandSlam) {
-    runs = 4;
-    bonusAwarded = true;
-  }
-  // Speed bonus (4 runs for answering in first 25% of timer)
-  else if (settings.speedBonus) {
-    const speedThreshold = settings.timerSec * 1000 * 0.25; // First 25% of timer
-    if (answerMs <= speedThreshold) {
-      runs = 4;
-      bonusAwarded = true;
-    }
+export function measureAnswerMs(
+  shownAt: number | undefined,
+  receivedAt: number,
+  latencyMs: number,
+  timerSec: number
+): number {
+  const timerMs = timerSec * 1000;
+  if (shownAt === undefined) {
+    return timerMs;
   }
 
-  return { runs, bonusAwarded };
-}
-
-/**
- * Check if this is a grand slam (first correct answer)
- */
-async function isGrandSlam(
-  matchId: string,
-  inningIdx: number,
-  questionIdx: number
-): Promise<boolean> {
-  const existingAnswers = await prisma.matchAnswer.findMany({
-    where: {
-      matchId,
-      inningIdx,
-      questionIdx,
-      isCorrect: true,
-    },
-  });
-
-  return existingAnswers.length === 0;
+  return Math.min(timerMs, Math.max(0, receivedAt - shownAt - latencyMs));
 }
 
 /**
@@ -79,7 +57,7 @@ export async function submitAnswer(
   question: Question,
   settings: MatchSettings
 ): Promise<SubmitAnswerResult> {
-  const { matchId, playerId, questionId, choice, clientLatencyMs } = request;
+  const { matchId, playerId, questionId, choice, answerMs, wager = 0 } = request;
 
   // Parse question metadata from questionId (format: matchId-inning-questionIdx)
   const parts = questionId.split('-');
@@ -89,16 +67,23 @@ export async function submitAnswer(
   // Check if answer is correct
   const correct = isAnswerCorrect(question, choice);
 
-  // Check for grand slam
-  const grandSlam = await isGrandSlam(matchId, inningIdx, questionIdx);
+  // Closest guesses are graded by their distance, and again at reveal once the nearest are known;
+  // map answers by their distance from the place
+  const distance = question.type === 'closest' ? getClosestDistance(question, choice) : null;
+  const gradedRuns =
+    question.type === 'closest' && distance !== null
+      ? gradeClosestGuess(question, distance)
+      : question.type === 'map'
+        ? gradeMapAnswer(question, choice)
+        : undefined;
 
-  // Calculate runs awarded
-  const { runs: runsAwarded, bonusAwarded } = calculateRuns(
+  // Calculate runs awarded; the speed bonus is only known at reveal, see awardSpeedBonus
+  const { runs, bonusAwarded } = getScoringPolicy(settings).scoreAnswer(
     correct,
-    clientLatencyMs,
-    settings,
-    grandSlam
+    question.grandSlam === true,
+    gradedRuns
   );
+  const runsAwarded = runs + settleWager(correct, wager);
 
   // Store answer in database
   await prisma.matchAnswer.create({
@@ -109,11 +94,32 @@ export async function submitAnswer(
       questionIdx,
       choice,
       isCorrect: correct,
-      answerMs: clientLatencyMs,
+      answerMs,
       bonusAwarded,
+      runsAwarded,
+      wager,
     },
   });
 
+  await recordAnswerScore(matchId, playerId, { runs: runsAwarded, isCorrect: correct, answerMs });
+
+  await recordMatchEvent(
+    matchId,
+    'answer_submitted',
+    {
+      questionId,
+      inningIdx,
+      questionIdx,
+      choice,
+      isCorrect: correct,
+      runsAwarded,
+      bonusAwarded,
+      wager,
+      answerMs,
+    },
+    { actorId: playerId }
+  );
+
   // Cache answer in Redis for quick access during reveal
   const cacheKey = `match:${matchId}:answers:${inningIdx}:${questionIdx}`;
   const answerData = {
@@ -122,7 +128,10 @@ export async function submitAnswer(
     isCorrect: correct,
     runsAwarded,
     bonusAwarded,
-    answerMs: clientLatencyMs,
+    speedBonus: false,
+    streakBonus: false,
+    wager,
+    answerMs,
   };
 
   await redisClient.sadd(cacheKey, JSON.stringify(answerData));
@@ -136,10 +145,72 @@ export async function submitAnswer(
     correctAnswer,
     runsAwarded,
     bonusAwarded,
-    answerMs: clientLatencyMs,
+    answerMs,
   };
 }
 
+/**
+ * Settle the stakes of players who staked on a wager question but never answered it
+ * Each gets an empty, wrong answer that loses their stake. Players who already
+ * have an answer are left alone, so it can safely run again.
+ */
+export async function forfeitUnansweredStakes(
+  matchId: string,
+  inningIdx: number,
+  questionIdx: number,
+  stakes: Record<string, number>,
+  timerSec: number
+): Promise<void> {
+  const answered = await prisma.matchAnswer.findMany({
+    where: { matchId, inningIdx, questionIdx },
+    select: { playerId: true },
+  });
+  const answeredIds = new Set(answered.map((answer) => answer.playerId));
+
+  const forfeits = Object.entries(stakes).filter(
+    ([playerId, stake]) => stake > 0 && !answeredIds.has(playerId)
+  );
+  if (forfeits.length === 0) {
+    return;
+  }
+
+  await prisma.matchAnswer.createMany({
+    data: forfeits.map(([playerId, stake]) => ({
+      matchId,
+      playerId,
+      inningIdx,
+      questionIdx,
+      choice: NO_ANSWER,
+      isCorrect: false,
+      answerMs: timerSec * 1000,
+      runsAwarded: settleWager(false, stake),
+      wager: stake,
+    })),
+    skipDuplicates: true,
+  });
+
+  // Drop cached results so the reveal reads the forfeits
+  await redisClient.del(`match:${matchId}:answers:${inningIdx}:${questionIdx}`);
+}
+
+/**
+ * Remove the stakes forfeited on a question, e.g. when its reveal is undone
+ * and the players can answer it again
+ */
+export async function removeForfeitedStakes(
+  matchId: string,
+  inningIdx: number,
+  questionIdx: number
+): Promise<void> {
+  const { count } = await prisma.matchAnswer.deleteMany({
+    where: { matchId, inningIdx, questionIdx, choice: NO_ANSWER, wager: { gt: 0 } },
+  });
+
+  if (count > 0) {
+    await redisClient.del(`match:${matchId}:answers:${inningIdx}:${questionIdx}`);
+  }
+}
+
 /**
  * Get all answers for a specific question
  */
@@ -155,6 +226,9 @@ export async function getQuestionAnswers(
     isCorrect: boolean;
     runsAwarded: number;
     bonusAwarded: boolean;
+    speedBonus: boolean;
+    streakBonus: boolean;
+    wager: number;
     answerMs: number;
   }>
 > {
@@ -179,6 +253,9 @@ export async function getQuestionAnswers(
           isCorrect: answer.isCorrect,
           runsAwarded: answer.runsAwarded,
           bonusAwarded: answer.bonusAwarded,
+          speedBonus: answer.speedBonus ?? false,
+          streakBonus: answer.streakBonus ?? false,
+          wager: answer.wager ?? 0,
           answerMs: answer.answerMs,
         };
       })
@@ -208,25 +285,105 @@ export async function getQuestionAnswers(
     nickname: answer.player.nickname,
     choice: answer.choice,
     isCorrect: answer.isCorrect,
-    runsAwarded: answer.bonusAwarded ? 4 : answer.isCorrect ? 1 : 0,
+    runsAwarded: answer.runsAwarded,
     bonusAwarded: answer.bonusAwarded,
+    speedBonus: answer.speedBonus,
+    streakBonus: answer.streakBonus,
+    wager: answer.wager,
     answerMs: answer.answerMs,
   }));
 }
 
 /**
  * Calculate total runs scored in an inning
+ * Every answer's runs count, so penalties and lost wagers come off the inning
+ * just as they come off the players' runs.
  */
 export async function calculateInningRuns(matchId: string, inningIdx: number): Promise<number> {
   const answers = await prisma.matchAnswer.findMany({
     where: {
       matchId,
       inningIdx,
-      isCorrect: true,
     },
   });
 
   return answers.reduce((total, answer) => {
-    return total + (answer.bonusAwarded ? 4 : 1);
+    return total + answer.runsAwarded;
   }, 0);
 }
+
+/**
+ * Take the speed bonus back off every answer to a question
+ * Used when its reveal is undone, so the bonus is only decided at the next reveal.
+ */
+export async function clearSpeedBonus(
+  matchId: string,
+  inningIdx: number,
+  questionIdx: number,
+  settings: MatchSettings
+): Promise<void> {
+  const answers = await prisma.matchAnswer.findMany({
+    where: {
+      matchId,
+      inningIdx,
+      questionIdx,
+      speedBonus: true,
+    },
+  });
+
+  const bonus = getScoringPolicy(settings).getSpeedBonus();
+  for (const answer of answers) {
+    await prisma.matchAnswer.update({
+      where: { id: answer.id },
+      data: { speedBonus: false, runsAwarded: answer.runsAwarded - bonus.runs },
+    });
+  }
+
+  await redisClient.del(`match:${matchId}:answers:${inningIdx}:${questionIdx}`);
+}
+
+/**
+ * Award the speed bonus to the fastest correct answers to a question
+ * Run at reveal, once every answer is in. Any bonus from an earlier reveal is
+ * taken off first, so it can safely run again after a re-reveal or a correction.
+ * @returns IDs of the players who earned the bonus
+ */
+export async function awardSpeedBonus(
+  matchId: string,
+  inningIdx: number,
+  questionIdx: number,
+  settings: MatchSettings
+): Promise<string[]> {
+  const answers = await prisma.matchAnswer.findMany({
+    where: {
+      matchId,
+      inningIdx,
+      questionIdx,
+    },
+    orderBy: [{ answerMs: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  const bonus = getScoringPolicy(settings).getSpeedBonus();
+  const winnerIds = answers
+    .filter((answer) => answer.isCorrect)
+    .slice(0, bonus.count)
+    .map((answer) => answer.playerId);
+
+  for (const answer of answers) {
+    const speedBonus = winnerIds.includes(answer.playerId);
+    const baseRuns = answer.runsAwarded - (answer.speedBonus ? bonus.runs : 0);
+    const runsAwarded = baseRuns + (speedBonus ? bonus.runs : 0);
+
+    if (answer.speedBonus !== speedBonus || answer.runsAwarded !== runsAwarded) {
+      await prisma.matchAnswer.update({
+        where: { id: answer.id },
+        data: { speedBonus, runsAwarded },
+      });
+    }
+  }
+
+  // Drop cached results so the reveal reads the awarded bonuses
+  await redisClient.del(`match:${matchId}:answers:${inningIdx}:${questionIdx}`);
+
+  return winnerIds;
+}
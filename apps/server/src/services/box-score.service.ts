@@ -0,0 +1,126 @@
+import { PrismaClient } from '@prisma/client';
+import { MatchPhase } from '@jaysgame/shared';
+import type { MatchState, PlayerBoxScore } from '@jaysgame/shared';
+
+const prisma = new PrismaClient();
+
+/**
+ * Box scores
+ *
+ * Each player gets a baseball box score next to the room's line score: runs by
+ * inning, hits (correct answers), errors (wrong answers) and left on base
+ * (questions played that they did not answer). A question counts as played
+ * once it has been revealed or passed.
+ */
+
+export type MatchPosition = Pick<MatchState, 'phase' | 'inning' | 'questionIdx' | 'resumePhase'>;
+
+interface BoxScoreAnswer {
+  playerId: string;
+  inningIdx: number;
+  questionIdx: number;
+  isCorrect: boolean;
+  runsAwarded: number;
+}
+
+interface BoxScorePlayer {
+  id: string;
+  nickname: string;
+  avatar?: string | null;
+}
+
+/**
+ * Count the questions played in each inning up to a match's position
+ */
+export function getQuestionsPlayed(
+  innings: Array<{ questions: unknown[] }>,
+  position: MatchPosition
+): number[] {
+  const phase = position.phase === MatchPhase.PAUSED ? position.resumePhase : position.phase;
+  const currentPlayed =
+    phase === MatchPhase.LOBBY || phase === MatchPhase.WAGER || phase === MatchPhase.QUESTION
+      ? 0
+      : 1;
+
+  return innings.map((inning, i) => {
+    if (phase === MatchPhase.LOBBY || i > position.inning) {
+      return 0;
+    }
+    if (i < position.inning) {
+      return inning.questions.length;
+    }
+    return Math.min(inning.questions.length, position.questionIdx + currentPlayed);
+  });
+}
+
+/**
+ * Build box scores from players' answers, in the order the players are given
+ * Only answers to played questions count, so an open question does not show early.
+ */
+export function buildBoxScores(
+  players: BoxScorePlayer[],
+  answers: BoxScoreAnswer[],
+  questionsPlayed: number[]
+): PlayerBoxScore[] {
+  const totalPlayed = questionsPlayed.reduce((sum, count) => sum + count, 0);
+
+  return players.map((player) => {
+    const innings: (number | null)[] = questionsPlayed.map((count) => (count > 0 ? 0 : null));
+    let hits = 0;
+    let errors = 0;
+    let answered = 0;
+
+    for (const answer of answers) {
+      const played = questionsPlayed[answer.inningIdx] ?? 0;
+      if (answer.playerId !== player.id || answer.questionIdx >= played) {
+        continue;
+      }
+
+      answered++;
+      if (answer.isCorrect) {
+        hits++;
+      } else {
+        errors++;
+      }
+      innings[answer.inningIdx] = (innings[answer.inningIdx] ?? 0) + answer.runsAwarded;
+    }
+
+    return {
+      playerId: player.id,
+      nickname: player.nickname,
+      avatar: player.avatar || undefined,
+      innings,
+      runs: innings.reduce<number>((sum, runs) => sum + (runs ?? 0), 0),
+      hits,
+      errors,
+      leftOnBase: Math.max(0, totalPlayed - answered),
+    };
+  });
+}
+
+/**
+ * Calculate the box score of every player in a match, in leaderboard order
+ */
+export async function calculateBoxScore(
+  state: MatchState,
+  innings: Array<{ questions: unknown[] }>
+): Promise<PlayerBoxScore[]> {
+  const answers = await prisma.matchAnswer.findMany({
+    where: { matchId: state.matchId },
+    select: {
+      playerId: true,
+      inningIdx: true,
+      questionIdx: true,
+      isCorrect: true,
+      runsAwarded: true,
+    },
+  });
+
+  const players = state.leaderboard.map((score) => ({
+    id: score.playerId,
+    nickname: score.nickname,
+    avatar: score.avatar,
+  }));
+
+  return buildBoxScores(players, answers, getQuestionsPlayed(innings, state));
+}
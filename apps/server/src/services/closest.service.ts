@@ -0,0 +1,134 @@
+import type { ClosestBand, ClosestQuestion, ClosestScoring, ClosestSpread } from '@jaysgame/shared';
+
+/**
+ * Closest-number grading
+ *
+ * Packs choose how a closest question pays out: bands of tolerance around the
+ * correct value, the N nearest guesses, and a bonus for an exact hit. An answer
+ * earns the best of the band and nearest runs, plus the exact bonus.
+ */
+
+/**
+ * Used when a question does not set its own scoring: 1 run to the nearest guess(es)
+ */
+const DEFAULT_CLOSEST_SCORING: ClosestScoring = {
+  nearest: { count: 1, runs: 1 },
+};
+
+export interface ClosestGrade {
+  distance: number;
+  runs: number;
+}
+
+/**
+ * Parse a guess; returns null for anything that is not a finite number
+ */
+export function parseGuess(choice: string): number | null {
+  const value = parseFloat(choice);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Get how far a guess is from the correct value, or null for an invalid guess
+ */
+export function getClosestDistance(question: ClosestQuestion, choice: string): number | null {
+  const value = parseGuess(choice);
+  return value === null ? null : Math.abs(question.correctValue - value);
+}
+
+/**
+ * Width of a band either side of the correct value
+ */
+function getBandTolerance(band: ClosestBand, correctValue: number): number {
+  return band.mode === 'percent' ? (Math.abs(correctValue) * band.tolerance) / 100 : band.tolerance;
+}
+
+/**
+ * Runs from the best band a guess falls in
+ */
+function getBandRuns(question: ClosestQuestion, scoring: ClosestScoring, distance: number): number {
+  return (scoring.bands ?? [])
+    .filter((band) => distance <= getBandTolerance(band, question.correctValue))
+    .reduce((best, band) => Math.max(best, band.runs), 0);
+}
+
+/**
+ * Get the extra runs for an exact hit
+ */
+function getExactBonus(scoring: ClosestScoring, distance: number): number {
+  return distance === 0 ? (scoring.exactBonus ?? 0) : 0;
+}
+
+/**
+ * Runs a guess earns on its own merits: its best band plus any exact-hit bonus
+ * Nearest-N runs depend on the other guesses, see gradeClosestAnswers.
+ */
+export function gradeClosestGuess(question: ClosestQuestion, distance: number): number {
+  const scoring = question.scoring ?? DEFAULT_CLOSEST_SCORING;
+  return getBandRuns(question, scoring, distance) + getExactBonus(scoring, distance);
+}
+
+/**
+ * Grade every answer to a closest question, keyed by answer ID
+ * Invalid guesses are left out.
+ */
+export function gradeClosestAnswers(
+  question: ClosestQuestion,
+  answers: Array<{ id: string; choice: string }>
+): Map<string, ClosestGrade> {
+  const scoring = question.scoring ?? DEFAULT_CLOSEST_SCORING;
+
+  const distances = new Map<string, number>();
+  for (const answer of answers) {
+    const distance = getClosestDistance(question, answer.choice);
+    if (distance !== null) {
+      distances.set(answer.id, distance);
+    }
+  }
+
+  // Everyone at least as near as the Nth nearest guess counts as nearest
+  let nearestCutoff = -1;
+  if (scoring.nearest && scoring.nearest.count > 0 && distances.size > 0) {
+    const sorted = [...distances.values()].sort((a, b) => a - b);
+    nearestCutoff = sorted[Math.min(scoring.nearest.count, sorted.length) - 1];
+  }
+
+  const grades = new Map<string, ClosestGrade>();
+  for (const [answerId, distance] of distances) {
+    let runs = getBandRuns(question, scoring, distance);
+    if (scoring.nearest && distance <= nearestCutoff) {
+      runs = Math.max(runs, scoring.nearest.runs);
+    }
+
+    grades.set(answerId, { distance, runs: runs + getExactBonus(scoring, distance) });
+  }
+
+  return grades;
+}
+
+/**
+ * Summarize how the guesses to a closest question were spread
+ */
+export function summarizeGuesses(question: ClosestQuestion, choices: string[]): ClosestSpread {
+  const values = choices
+    .map(parseGuess)
+    .filter((value): value is number => value !== null)
+    .sort((a, b) => a - b);
+
+  const mid = Math.floor(values.length / 2);
+  const median =
+    values.length === 0
+      ? null
+      : values.length % 2 === 1
+        ? values[mid]
+        : (values[mid - 1] + values[mid]) / 2;
+
+  return {
+    correctValue: question.correctValue,
+    unit: question.unit,
+    count: values.length,
+    min: values.length > 0 ? values[0] : null,
+    max: values.length > 0 ? values[values.length - 1] : null,
+    median,
+  };
+}
@@ -0,0 +1,137 @@
+import { PrismaClient } from '@prisma/client';
+import type {
+  MatchEvent,
+  MatchEventType,
+  MatchPlayer,
+  MatchState,
+  PlayerScore,
+} from '@jaysgame/shared';
+
+const prisma = new PrismaClient();
+
+/**
+ * Match event log
+ *
+ * An append-only record of everything that happened in a match. State changes
+ * carry a full MatchState snapshot; roster and score events carry the pieces of
+ * state they changed, so the state at any moment can be replayed from the log.
+ */
+
+export interface RecordMatchEventOptions {
+  actorId?: string;
+  state?: MatchState;
+}
+
+export interface GetMatchEventsOptions {
+  // Only return events after this sequence number
+  after?: number;
+  limit?: number;
+}
+
+const DEFAULT_EVENTS_LIMIT = 500;
+
+/**
+ * Append an event to a match's log
+ * Failures are logged rather than thrown so that logging never breaks gameplay.
+ */
+export async function recordMatchEvent(
+  matchId: string,
+  type: MatchEventType,
+  payload: Record<string, unknown>,
+  options: RecordMatchEventOptions = {}
+): Promise<void> {
+  try {
+    await prisma.matchEvent.create({
+      data: {
+        matchId,
+        type,
+        actorId: options.actorId,
+        payload: payload as object,
+        state: options.state as object | undefined,
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to record ${type} event for match ${matchId}:`, error);
+  }
+}
+
+/**
+ * Get a match's events in the order they happened
+ */
+export async function getMatchEvents(
+  matchId: string,
+  options: GetMatchEventsOptions = {}
+): Promise<MatchEvent[]> {
+  const events = await prisma.matchEvent.findMany({
+    where: {
+      matchId,
+      ...(options.after !== undefined && { seq: { gt: options.after } }),
+    },
+    orderBy: { seq: 'asc' },
+    take: options.limit ?? DEFAULT_EVENTS_LIMIT,
+  });
+
+  return events.map((event) => ({
+    seq: event.seq,
+    matchId: event.matchId,
+    type: event.type as MatchEventType,
+    actorId: event.actorId || undefined,
+    payload: event.payload as Record<string, unknown>,
+    createdAt: event.createdAt,
+  }));
+}
+
+/**
+ * Rebuild the match state as it was at a point in time
+ * Starts from the last state snapshot before `at` and applies the roster and
+ * score events that followed it. Returns null if the match had not started logging yet.
+ */
+export async function replayMatchState(matchId: string, at: Date): Promise<MatchState | null> {
+  const snapshot = await prisma.matchEvent.findFirst({
+    where: {
+      matchId,
+      type: 'state_changed',
+      createdAt: { lte: at },
+    },
+    orderBy: { seq: 'desc' },
+  });
+
+  if (!snapshot?.state) {
+    return null;
+  }
+
+  const state = snapshot.state as unknown as MatchState;
+
+  const events = await prisma.matchEvent.findMany({
+    where: {
+      matchId,
+      seq: { gt: snapshot.seq },
+      createdAt: { lte: at },
+      type: { in: ['player_joined', 'player_left', 'score_updated'] },
+    },
+    orderBy: { seq: 'asc' },
+  });
+
+  for (const event of events) {
+    const payload = event.payload as Record<string, unknown>;
+
+    switch (event.type as MatchEventType) {
+      case 'player_joined': {
+        const player = payload.player as MatchPlayer;
+        state.players = [...state.players.filter((p) => p.id !== player.id), player];
+        break;
+      }
+
+      case 'player_left':
+        state.players = state.players.filter((p) => p.id !== payload.playerId);
+        break;
+
+      case 'score_updated':
+        state.leaderboard = payload.leaderboard as PlayerScore[];
+        state.lineScore = payload.lineScore as (number | null)[];
+        break;
+    }
+  }
+
+  return state;
+}
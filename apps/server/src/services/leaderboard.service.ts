@@ -0,0 +1,191 @@
+import { PlayerRole } from '@jaysgame/shared';
+import type { MatchPlayer, MatchState, PlayerScore, ScoreUpdatePayload } from '@jaysgame/shared';
+import { redisClient } from '../config/redis';
+import { io } from '../index';
+import { withMatchLock } from '../utils/match-lock';
+import { recordMatchEvent } from './event.service';
+import { getMatchState, updateMatchState } from './match.service';
+import { calculateLeaderboard } from './player.service';
+
+/**
+ * Live leaderboard
+ *
+ * Scores are kept in Redis and updated as each answer is scored, instead of
+ * being recomputed from every stored answer: a sorted set of runs plus hashes of
+ * correct answers, answers given and total answer time, all keyed by player ID.
+ * Anything that rescores past answers (reveals, corrections, recovery) resyncs
+ * them from Postgres. score:update broadcasts are coalesced to a fixed cadence.
+ */
+
+const SCORE_BROADCAST_INTERVAL_MS = 1000;
+
+const LEADERBOARD_TTL_SEC = 86400; // 24 hours, like the match state
+
+const pendingBroadcasts = new Map<string, NodeJS.Timeout>();
+
+function getLeaderboardKeys(matchId: string) {
+  return {
+    runs: `match:${matchId}:leaderboard:runs`,
+    correct: `match:${matchId}:leaderboard:correct`,
+    total: `match:${matchId}:leaderboard:total`,
+    timeMs: `match:${matchId}:leaderboard:timeMs`,
+  };
+}
+
+/**
+ * Rank players by runs, then by the least total answer time
+ */
+export function sortLeaderboard(players: PlayerScore[]): PlayerScore[] {
+  return players.sort((a, b) => {
+    if (b.runs !== a.runs) return b.runs - a.runs;
+    return a.totalTimeMs - b.totalTimeMs;
+  });
+}
+
+/**
+ * Add a scored answer to the live leaderboard
+ */
+export async function recordAnswerScore(
+  matchId: string,
+  playerId: string,
+  score: { runs: number; isCorrect: boolean; answerMs: number }
+): Promise<void> {
+  const keys = getLeaderboardKeys(matchId);
+
+  const multi = redisClient
+    .multi()
+    .zincrby(keys.runs, score.runs, playerId)
+    .hincrby(keys.correct, playerId, score.isCorrect ? 1 : 0)
+    .hincrby(keys.total, playerId, 1)
+    .hincrby(keys.timeMs, playerId, score.answerMs);
+  for (const key of Object.values(keys)) {
+    multi.expire(key, LEADERBOARD_TTL_SEC);
+  }
+
+  await multi.exec();
+}
+
+/**
+ * Rebuild the live leaderboard from the stored answers
+ * @returns The rebuilt leaderboard, ranked
+ */
+export async function syncLeaderboard(matchId: string): Promise<PlayerScore[]> {
+  const scores = await calculateLeaderboard(matchId);
+  const keys = getLeaderboardKeys(matchId);
+
+  const multi = redisClient.multi().del(...Object.values(keys));
+  for (const score of scores) {
+    multi
+      .zadd(keys.runs, score.runs, score.playerId)
+      .hset(keys.correct, score.playerId, score.correct)
+      .hset(keys.total, score.playerId, score.total)
+      .hset(keys.timeMs, score.playerId, score.totalTimeMs);
+  }
+  for (const key of Object.values(keys)) {
+    multi.expire(key, LEADERBOARD_TTL_SEC);
+  }
+
+  await multi.exec();
+
+  return sortLeaderboard(scores);
+}
+
+/**
+ * Read a player's current runs from the live leaderboard
+ */
+export async function getPlayerRuns(matchId: string, playerId: string): Promise<number> {
+  const runs = await redisClient.zscore(getLeaderboardKeys(matchId).runs, playerId);
+  return Number(runs ?? 0);
+}
+
+/**
+ * Read the live leaderboard for the players in a match
+ * Spectators and waitlisted players are left out.
+ */
+export async function getLeaderboard(
+  matchId: string,
+  players: MatchPlayer[]
+): Promise<PlayerScore[]> {
+  const keys = getLeaderboardKeys(matchId);
+
+  const [runEntries, correct, total, timeMs] = await Promise.all([
+    redisClient.zrange(keys.runs, 0, -1, 'WITHSCORES'),
+    redisClient.hgetall(keys.correct),
+    redisClient.hgetall(keys.total),
+    redisClient.hgetall(keys.timeMs),
+  ]);
+
+  const runs: Record<string, number> = {};
+  for (let i = 0; i < runEntries.length; i += 2) {
+    runs[runEntries[i]] = Number(runEntries[i + 1]);
+  }
+
+  return sortLeaderboard(
+    players
+      .filter((player) => (player.role ?? PlayerRole.PLAYER) === PlayerRole.PLAYER)
+      .map((player) => ({
+        playerId: player.id,
+        nickname: player.nickname,
+        avatar: player.avatar,
+        runs: runs[player.id] ?? 0,
+        correct: Number(correct[player.id] ?? 0),
+        total: Number(total[player.id] ?? 0),
+        totalTimeMs: Number(timeMs[player.id] ?? 0),
+      }))
+  );
+}
+
+/**
+ * Build the score:update payload for a match state
+ * Team scores are only included for matches played in teams.
+ */
+export function getScoreUpdate(state: MatchState): ScoreUpdatePayload {
+  return {
+    leaderboard: state.leaderboard,
+    lineScore: state.lineScore,
+    boxScore: state.boxScore,
+    streaks: state.streaks,
+    ...(state.teamLeaderboard && {
+      teamLeaderboard: state.teamLeaderboard,
+      teamLineScore: state.teamLineScore,
+    }),
+  };
+}
+
+/**
+ * Publish the live leaderboard to the match state and broadcast it
+ */
+export async function publishLeaderboard(matchId: string): Promise<void> {
+  await withMatchLock(matchId, async () => {
+    const state = await getMatchState(matchId);
+    if (!state) {
+      return;
+    }
+
+    state.leaderboard = await getLeaderboard(matchId, state.players);
+    await updateMatchState(matchId, state);
+    const update = getScoreUpdate(state);
+    await recordMatchEvent(matchId, 'score_updated', { ...update });
+
+    io.to(matchId).emit('score:update', update);
+  });
+}
+
+/**
+ * Queue a score:update broadcast
+ * Calls within the same interval share a single broadcast.
+ */
+export function scheduleScoreBroadcast(matchId: string): void {
+  if (pendingBroadcasts.has(matchId)) {
+    return;
+  }
+
+  const timer = setTimeout(() => {
+    pendingBroadcasts.delete(matchId);
+    publishLeaderboard(matchId).catch((error) =>
+      console.error(`Failed to publish leaderboard for match ${matchId}:`, error)
+    );
+  }, SCORE_BROADCAST_INTERVAL_MS);
+
+  pendingBroadcasts.set(matchId, timer);
+}
@@ -0,0 +1,178 @@
+import { PrismaClient } from '@prisma/client';
+import type { MatchEndPayload } from '@jaysgame/shared';
+import { env } from '../config/env';
+import { io } from '../index';
+import { withMatchLock } from '../utils/match-lock';
+import { recordMatchEvent } from './event.service';
+import { getMatchState, purgeMatchKeys } from './match.service';
+import { calculateLeaderboard } from './player.service';
+import { cancelMatchJobs, MATCH_JOB_TYPES } from './scheduler.service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Match lifecycle cleanup
+ *
+ * Hosts often just close the tab, leaving matches LOBBY or IN_PROGRESS forever.
+ * A periodic sweep abandons matches whose host is not in the match room and that
+ * have had no activity for MATCH_IDLE_TIMEOUT_MIN minutes: players get a final
+ * match:end, the join code is freed for reuse, pending timers are cancelled and
+ * Redis is cleaned up.
+ */
+
+const REAPER_INTERVAL_MS = 60000;
+
+let reaperTimer: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+/**
+ * Check whether a match's host has a socket in its room on any server instance
+ * A host connected to another of their matches does not keep this one alive.
+ */
+async function isHostConnected(matchId: string, hostId: string): Promise<boolean> {
+  const sockets = await io.in(matchId).fetchSockets();
+  return sockets.some((socket) => socket.data.user?.userId === hostId);
+}
+
+/**
+ * Get when a match last did anything
+ * Every transition, join and answer is in the event log; fall back to when it started.
+ */
+async function getLastActivity(match: {
+  id: string;
+  createdAt: Date;
+  startedAt: Date | null;
+  scheduledStartAt: Date | null;
+}): Promise<Date> {
+  const lastEvent = await prisma.matchEvent.findFirst({
+    where: { matchId: match.id },
+    orderBy: { seq: 'desc' },
+    select: { createdAt: true },
+  });
+
+  return lastEvent?.createdAt ?? match.startedAt ?? match.scheduledStartAt ?? match.createdAt;
+}
+
+/**
+ * Mark a match abandoned and release everything it holds
+ */
+export async function abandonMatch(matchId: string): Promise<void> {
+  await withMatchLock(matchId, async () => {
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+    });
+
+    // Finished or deleted while we waited for the lock
+    if (!match || (match.status !== 'LOBBY' && match.status !== 'IN_PROGRESS')) {
+      return;
+    }
+
+    const state = await getMatchState(matchId);
+    const leaderboard = state?.leaderboard ?? (await calculateLeaderboard(matchId));
+
+    await prisma.match.update({
+      where: { id: matchId },
+      data: {
+        status: 'ABANDONED',
+        endedAt: new Date(),
+        joinCode: null,
+      },
+    });
+
+    await cancelMatchJobs(matchId, MATCH_JOB_TYPES);
+    await purgeMatchKeys(matchId);
+    await recordMatchEvent(matchId, 'match_abandoned', { previousStatus: match.status });
+
+    const payload: MatchEndPayload = {
+      finalScores: leaderboard,
+      mvp: leaderboard.length > 0 ? leaderboard[0].playerId : '',
+      series: state?.series,
+      abandoned: true,
+    };
+    io.to(matchId).emit('match:end', payload);
+
+    console.info(`Abandoned idle match ${matchId} (was ${match.status})`);
+  });
+}
+
+/**
+ * Abandon every open match that has been idle past the timeout with no host in its room
+ */
+export async function reapIdleMatches(): Promise<number> {
+  const cutoff = new Date(Date.now() - env.MATCH_IDLE_TIMEOUT_MIN * 60000);
+
+  const candidates = await prisma.match.findMany({
+    where: {
+      status: { in: ['LOBBY', 'IN_PROGRESS'] },
+      createdAt: { lt: cutoff },
+      // Matches scheduled for later are expected to sit in the lobby until then
+      OR: [{ scheduledStartAt: null }, { scheduledStartAt: { lt: cutoff } }],
+    },
+    select: {
+      id: true,
+      hostId: true,
+      createdAt: true,
+      startedAt: true,
+      scheduledStartAt: true,
+    },
+  });
+
+  if (candidates.length === 0) {
+    return 0;
+  }
+
+  let reaped = 0;
+
+  for (const match of candidates) {
+    if (await isHostConnected(match.id, match.hostId)) {
+      continue;
+    }
+
+    if ((await getLastActivity(match)) >= cutoff) {
+      continue;
+    }
+
+    try {
+      await abandonMatch(match.id);
+      reaped++;
+    } catch (error) {
+      console.error(`Failed to abandon match ${match.id}:`, error);
+    }
+  }
+
+  return reaped;
+}
+
+/**
+ * Start the periodic idle-match sweep
+ */
+export function startMatchReaper(): void {
+  if (reaperTimer) {
+    return;
+  }
+
+  reaperTimer = setInterval(() => {
+    if (sweeping) {
+      return;
+    }
+    sweeping = true;
+
+    reapIdleMatches()
+      .catch((error) => console.error('Idle match sweep failed:', error))
+      .finally(() => {
+        sweeping = false;
+      });
+  }, REAPER_INTERVAL_MS);
+
+  console.info(`✓ Match reaper started (idle timeout: ${env.MATCH_IDLE_TIMEOUT_MIN} min)`);
+}
+
+/**
+ * Stop the periodic idle-match sweep
+ */
+export function stopMatchReaper(): void {
+  if (reaperTimer) {
+    clearInterval(reaperTimer);
+    reaperTimer = null;
+  }
+}
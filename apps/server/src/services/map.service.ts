@@ -0,0 +1,144 @@
+import type { MapBand, MapPlace, MapQuestion, MapReveal, MapScoring } from '@jaysgame/shared';
+import { findPlace } from '../utils/gazetteer';
+
+/**
+ * Map grading
+ *
+ * Players answer a map question by picking a city or stadium from the gazetteer
+ * or by dropping a pin as "lat,lng". An answer earns the runs of the best
+ * distance band around the correct place it falls in, plus a bonus for picking
+ * the place itself.
+ */
+
+/**
+ * Used when a question does not set its own scoring: 1 run within 50 km
+ */
+const DEFAULT_MAP_SCORING: MapScoring = {
+  bands: [{ radiusKm: 50, runs: 1 }],
+};
+
+// Pins this close count as picking the place itself
+const EXACT_HIT_KM = 1;
+
+const EARTH_RADIUS_KM = 6371;
+
+export interface MapGuess {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Parse a map answer: a gazetteer place, or a "lat,lng" pin
+ * Returns null for anything else, including coordinates out of range.
+ */
+export function parseMapGuess(choice: string): MapGuess | null {
+  const place = findPlace(choice);
+  if (place) {
+    return { lat: place.lat, lng: place.lng };
+  }
+
+  // Blank parts would read as 0, so "," is not a pin at 0,0
+  const parts = choice.split(',').map((part) => part.trim());
+  if (parts.length !== 2 || parts.some((part) => part === '')) {
+    return null;
+  }
+
+  const [lat, lng] = parts.map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+    return null;
+  }
+
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+
+  return { lat, lng };
+}
+
+/**
+ * Get the place a map question's answer is
+ * Packs are validated against the gazetteer, so a missing place is a bad pack.
+ */
+export function getMapPlace(question: MapQuestion): MapPlace {
+  const place = findPlace(question.correctPlace);
+  if (!place) {
+    throw new Error(`Unknown map place: ${question.correctPlace}`);
+  }
+  return place;
+}
+
+/**
+ * Great-circle distance between two points, in km
+ */
+function getDistanceKm(a: MapGuess, b: MapGuess): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Get how far a map answer is from the correct place in km, or null for an invalid answer
+ * Rounded to 100 m.
+ */
+export function getMapDistance(question: MapQuestion, choice: string): number | null {
+  const guess = parseMapGuess(choice);
+  return guess === null ? null : Math.round(getDistanceKm(guess, getMapPlace(question)) * 10) / 10;
+}
+
+/**
+ * Runs from the best band a distance falls in
+ */
+function getBandRuns(bands: MapBand[], distanceKm: number): number {
+  return bands
+    .filter((band) => distanceKm <= band.radiusKm)
+    .reduce((best, band) => Math.max(best, band.runs), 0);
+}
+
+/**
+ * Grade a map answer: its best band plus any exact-hit bonus
+ * Invalid answers earn nothing.
+ */
+export function gradeMapAnswer(question: MapQuestion, choice: string): number {
+  const distanceKm = getMapDistance(question, choice);
+  if (distanceKm === null) {
+    return 0;
+  }
+
+  const scoring = question.scoring ?? DEFAULT_MAP_SCORING;
+  const exactBonus = distanceKm <= EXACT_HIT_KM ? (scoring.exactBonus ?? 0) : 0;
+  return getBandRuns(scoring.bands ?? [], distanceKm) + exactBonus;
+}
+
+/**
+ * Summarize a map question for its reveal: the place, and optionally where everyone guessed
+ * Invalid answers are left out of the guesses.
+ */
+export function summarizeMapGuesses(
+  question: MapQuestion,
+  answers: Array<{ playerId: string; choice: string }>,
+  includeGuesses: boolean
+): MapReveal {
+  const place = getMapPlace(question);
+  if (!includeGuesses) {
+    return { place };
+  }
+
+  const guesses: NonNullable<MapReveal['guesses']> = [];
+  for (const answer of answers) {
+    const guess = parseMapGuess(answer.choice);
+    if (guess) {
+      guesses.push({
+        playerId: answer.playerId,
+        ...guess,
+        distanceKm: getMapDistance(question, answer.choice)!,
+      });
+    }
+  }
+
+  return { place, guesses: guesses.sort((a, b) => a.distanceKm - b.distanceKm) };
+}
@@ -1,16 +1,48 @@
 import { PrismaClient } from '@prisma/client';
-import type { Match as PrismaMatch, MatchMode, MatchStatus } from '@prisma/client';
+import type {
+  Match as PrismaMatch,
+  MatchMode,
+  MatchStatus,
+  Pack as PrismaPack,
+} from '@prisma/client';
 import { redisClient } from '../config/redis';
+import { generateCalendar } from '../utils/ics';
 import { generateJoinCode } from '../utils/join-code';
 import { generateMatchQRCode, getJoinUrl } from '../utils/qrcode';
-import type { MatchSettings } from '@jaysgame/shared';
+import { scheduleMatchJob } from './scheduler.service';
+import { getSeriesLength } from './series.service';
+import { recordMatchEvent } from './event.service';
+import { toMatchPlayer } from './player.service';
+import { buildBoxScores, getQuestionsPlayed } from './box-score.service';
+import { buildStreaks } from './streak.service';
+import type { MatchCheckpoint } from './recovery.service';
+import { normalizeTeamNames, toTeam } from './team.service';
+import { MatchPhase } from '@jaysgame/shared';
+import type {
+  AutopilotSettings,
+  JoinSettings,
+  MatchPlayer,
+  MatchSettings,
+  MatchState,
+  PackMeta,
+  Team,
+  TeamSettings,
+} from '@jaysgame/shared';
 
 const prisma = new PrismaClient();
 
 export interface CreateMatchRequest {
   packId: string;
   mode?: MatchMode;
-  settings?: Partial<MatchSettings>;
+  settings?: Partial<Omit<MatchSettings, 'autopilot' | 'join' | 'teams'>> & {
+    autopilot?: Partial<AutopilotSettings>;
+    join?: Partial<JoinSettings>;
+    teams?: Partial<TeamSettings>;
+  };
+  // Names of the teams the host sets up, for matches played in teams
+  teams?: string[];
+  // Start automatically at this time instead of waiting for the host
+  scheduledStartAt?: Date;
 }
 
 export interface CreateMatchResponse {
@@ -20,35 +52,74 @@ export interface CreateMatchResponse {
   qrCodeUrl: string;
 }
 
+export interface RematchResponse extends CreateMatchResponse {
+  // New player ID for each carried-over player, keyed by their previous ID
+  playerIds: Record<string, string>;
+}
+
 /**
  * Default match settings
  */
-const DEFAULT_MATCH_SETTINGS: MatchSettings = {
+export const DEFAULT_MATCH_SETTINGS: MatchSettings = {
   grandSlam: true,
   speedBonus: false,
+  speedBonusCount: 5,
+  speedBonusRuns: 1,
+  streakBonus: false,
+  streakBonusLength: 5,
+  streakBonusRuns: 1,
+  scoring: 'classic',
   timerSec: 20,
   allowReactions: true,
   allowHeckles: true,
   showMap: true,
+  autoReveal: true,
+  autopilot: {
+    enabled: false,
+    revealDwellSec: 8,
+    inningBreakSec: 15,
+    stretch: true,
+  },
+  join: {
+    policy: 'open',
+    untilInning: 9,
+    maxPlayers: null,
+  },
+  teams: {
+    enabled: false,
+    scoring: 'sum',
+    allowPlayerTeams: true,
+  },
 };
 
 /**
- * Create a new match
+ * Load a pack and check it can be played in the given mode
  */
-export async function createMatch(
-  hostId: string,
-  request: CreateMatchRequest
-): Promise<CreateMatchResponse> {
-  // Verify pack exists
+async function getPlayablePack(packId: string, mode: MatchMode): Promise<PrismaPack> {
   const pack = await prisma.pack.findUnique({
-    where: { id: request.packId },
+    where: { id: packId },
   });
 
   if (!pack) {
     throw new Error('Pack not found');
   }
 
-  // Generate unique join code
+  // Best-of series need at least one inning per game
+  const seriesLength = getSeriesLength(mode);
+  const inningCount = (pack.innings as unknown[]).length;
+  if (seriesLength && inningCount < seriesLength) {
+    throw new Error(
+      `Pack needs at least ${seriesLength} innings for a best-of-${seriesLength} series`
+    );
+  }
+
+  return pack;
+}
+
+/**
+ * Generate a join code that no other match is using
+ */
+async function generateUniqueJoinCode(): Promise<string> {
   let joinCode: string;
   let attempts = 0;
   const maxAttempts = 10;
@@ -67,11 +138,40 @@ export async function createMatch(
     }
   } while (attempts < maxAttempts);
 
+  return joinCode;
+}
+
+/**
+ * Create a new match
+ */
+export async function createMatch(
+  hostId: string,
+  request: CreateMatchRequest
+): Promise<CreateMatchResponse> {
+  const mode = request.mode || 'NINE_INNINGS';
+  const pack = await getPlayablePack(request.packId, mode);
+
+  // Generate unique join code
+  const joinCode = await generateUniqueJoinCode();
+
   // Merge settings with defaults
   const settings: MatchSettings = {
     ...DEFAULT_MATCH_SETTINGS,
     ...request.settings,
+    autopilot: {
+      ...DEFAULT_MATCH_SETTINGS.autopilot,
+      ...request.settings?.autopilot,
+    },
+    join: {
+      ...DEFAULT_MATCH_SETTINGS.join,
+      ...request.settings?.join,
+    },
+    teams: {
+      ...DEFAULT_MATCH_SETTINGS.teams,
+      ...request.settings?.teams,
+    },
   };
+  const teamNames = settings.teams.enabled ? normalizeTeamNames(request.teams ?? []) : [];
 
   // Create match in database
   const match = await prisma.match.create({
@@ -79,14 +179,32 @@ export async function createMatch(
       hostId,
       packId: request.packId,
       joinCode,
-      mode: request.mode || 'NINE_INNINGS',
+      mode,
       status: 'LOBBY',
       settings: settings as object,
+      scheduledStartAt: request.scheduledStartAt,
+      teams: {
+        create: teamNames.map((name) => ({ name })),
+      },
+    },
+    include: {
+      teams: { orderBy: { createdAt: 'asc' } },
     },
   });
 
   // Initialize match state in Redis
-  await initializeMatchState(match.id, pack.innings as object);
+  const scheduledStartAt = request.scheduledStartAt?.getTime();
+  await initializeMatchState(
+    match.id,
+    pack.innings as object,
+    [],
+    scheduledStartAt,
+    match.teams.map(toTeam)
+  );
+
+  if (scheduledStartAt) {
+    await scheduleMatchJob(match.id, 'lobby:countdown', scheduledStartAt, String(scheduledStartAt));
+  }
 
   // Generate QR code
   const qrCodeUrl = await generateMatchQRCode(joinCode);
@@ -100,10 +218,132 @@ export async function createMatch(
   };
 }
 
+/**
+ * Start a new match for the players of a finished one
+ * The new match takes over the join code, mode, settings and teams, and the
+ * active roster is carried across with new player IDs, each keeping their role
+ * and team, so spectators and the waitlist stay within the player cap.
+ * Uses the same pack unless another is given.
+ */
+export async function createRematch(
+  matchId: string,
+  hostId: string,
+  packId?: string
+): Promise<RematchResponse> {
+  const previous = await prisma.match.findUnique({
+    where: { id: matchId },
+    include: {
+      players: {
+        where: { leftAt: null },
+        orderBy: { joinedAt: 'asc' },
+      },
+      teams: { orderBy: { createdAt: 'asc' } },
+    },
+  });
+
+  if (!previous) {
+    throw new Error('Match not found');
+  }
+
+  if (previous.hostId !== hostId) {
+    throw new Error('Unauthorized: You do not host this match');
+  }
+
+  if (previous.status !== 'COMPLETED') {
+    throw new Error('Can only rematch a completed match');
+  }
+
+  const pack = await getPlayablePack(packId ?? previous.packId, previous.mode);
+  const joinCode = previous.joinCode ?? (await generateUniqueJoinCode());
+
+  // Hand the join code over in the same transaction so it is never claimed twice
+  const [, match] = await prisma.$transaction([
+    prisma.match.update({
+      where: { id: matchId },
+      data: { joinCode: null },
+    }),
+    prisma.match.create({
+      data: {
+        hostId,
+        packId: pack.id,
+        joinCode,
+        mode: previous.mode,
+        status: 'LOBBY',
+        settings: previous.settings as object,
+        players: {
+          create: previous.players.map((player) => ({
+            nickname: player.nickname,
+            avatar: player.avatar,
+            city: player.city,
+            role: player.role,
+            socketId: player.socketId,
+          })),
+        },
+        teams: {
+          create: previous.teams.map((team) => ({ name: team.name })),
+        },
+      },
+      include: {
+        players: true,
+        teams: { orderBy: { createdAt: 'asc' } },
+      },
+    }),
+  ]);
+
+  // Nicknames are unique among a match's active players
+  const playerIds: Record<string, string> = {};
+  for (const player of previous.players) {
+    const carried = match.players.find((p) => p.nickname === player.nickname);
+    if (carried) {
+      playerIds[player.id] = carried.id;
+    }
+  }
+
+  // Put carried players back on the team of the same name
+  const teams = match.teams.map(toTeam);
+  const players = match.players.map(toMatchPlayer);
+  for (const team of previous.teams) {
+    const carriedTeam = teams.find((t) => t.name === team.name)!;
+    const members = previous.players
+      .filter((player) => player.teamId === team.id && playerIds[player.id])
+      .map((player) => playerIds[player.id]);
+    if (members.length === 0) {
+      continue;
+    }
+
+    await prisma.matchPlayer.updateMany({
+      where: { id: { in: members } },
+      data: { teamId: carriedTeam.id },
+    });
+    for (const player of players.filter((p) => members.includes(p.id))) {
+      player.teamId = carriedTeam.id;
+    }
+  }
+
+  await initializeMatchState(match.id, pack.innings as object, players, undefined, teams);
+  for (const player of players) {
+    await recordMatchEvent(match.id, 'player_joined', { player }, { actorId: player.id });
+  }
+
+  return {
+    matchId: match.id,
+    joinCode,
+    joinUrl: getJoinUrl(joinCode),
+    qrCodeUrl: await generateMatchQRCode(joinCode),
+    playerIds,
+  };
+}
+
 /**
  * Initialize match state in Redis
  */
-async function initializeMatchState(matchId: string, innings: object): Promise<void> {
+async function initializeMatchState(
+  matchId: string,
+  innings: object,
+  players: MatchPlayer[] = [],
+  scheduledStartAt?: number,
+  teams: Team[] = []
+): Promise<void> {
   const inningsArray = innings as Array<{ theme: string; questions: unknown[] }>;
 
   const initialState = {
@@ -113,7 +353,10 @@ async function initializeMatchState(matchId: string, innings: object): Promise<v
     questionIdx: 0,
     lineScore: Array(inningsArray.length).fill(null),
     leaderboard: [],
-    players: [],
+    players,
+    teams,
+    scheduledStartAt,
+    version: 0,
   };
 
   // Store state with 24-hour expiration
@@ -153,9 +396,13 @@ export async function getMatchById(matchId: string): Promise<PrismaMatch | null>
 /**
  * Get match by join code
  */
-export async function getMatchByJoinCode(
-  joinCode: string
-): Promise<(PrismaMatch & { pack: { id: string; meta: object } }) | null> {
+export async function getMatchByJoinCode(joinCode: string): Promise<
+  | (PrismaMatch & {
+      pack: { id: string; meta: object };
+      teams: Array<{ id: string; name: string }>;
+    })
+  | null
+> {
   return prisma.match.findUnique({
     where: { joinCode },
     include: {
@@ -165,8 +412,21 @@ export async function getMatchByJoinCode(
           meta: true,
         },
       },
+      teams: {
+        select: {
+          id: true,
+          name: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      },
     },
-  }) as Promise<(PrismaMatch & { pack: { id: string; meta: object } }) | null>;
+  }) as Promise<
+    | (PrismaMatch & {
+        pack: { id: string; meta: object };
+        teams: Array<{ id: string; name: string }>;
+      })
+    | null
+  >;
 }
 
 /**
@@ -188,6 +448,89 @@ export async function getUserMatches(hostId: string): Promise<PrismaMatch[]> {
   });
 }
 
+/**
+ * Get a host's matches that are scheduled and have not started yet, soonest first
+ */
+export async function getScheduledMatches(hostId: string): Promise<PrismaMatch[]> {
+  return prisma.match.findMany({
+    where: {
+      hostId,
+      status: 'LOBBY',
+      scheduledStartAt: { gte: new Date() },
+    },
+    include: {
+      pack: {
+        select: {
+          id: true,
+          meta: true,
+        },
+      },
+    },
+    orderBy: { scheduledStartAt: 'asc' },
+  });
+}
+
+/**
+ * Rough running time of a match, used as the calendar event length
+ */
+function estimateMatchDurationMs(innings: object, settings: MatchSettings): number {
+  const inningsArray = innings as Array<{ theme: string; questions: unknown[] }>;
+  const questionCount = inningsArray.reduce((total, inning) => total + inning.questions.length, 0);
+  const perQuestionSec = settings.timerSec + settings.autopilot.revealDwellSec;
+  const totalSec =
+    questionCount * perQuestionSec + inningsArray.length * settings.autopilot.inningBreakSec;
+
+  // Round up to the next half hour
+  const halfHourMs = 30 * 60000;
+  return Math.max(1, Math.ceil((totalSec * 1000) / halfHourMs)) * halfHourMs;
+}
+
+/**
+ * Export a host's upcoming scheduled matches as an iCalendar feed
+ */
+export async function getScheduledMatchesCalendar(hostId: string): Promise<string> {
+  const host = await prisma.user.findUnique({
+    where: { id: hostId },
+    select: { displayName: true },
+  });
+
+  if (!host) {
+    throw new Error('Host not found');
+  }
+
+  const matches = await prisma.match.findMany({
+    where: {
+      hostId,
+      status: 'LOBBY',
+      scheduledStartAt: { gte: new Date() },
+    },
+    include: { pack: true },
+    orderBy: { scheduledStartAt: 'asc' },
+  });
+
+  const events = matches.map((match) => {
+    const meta = match.pack.meta as unknown as PackMeta;
+    const settings = match.settings as unknown as MatchSettings;
+    const start = match.scheduledStartAt!;
+    const joinUrl = match.joinCode ? getJoinUrl(match.joinCode) : undefined;
+
+    return {
+      uid: `${match.id}@fanplayoffs`,
+      start,
+      end: new Date(
+        start.getTime() + estimateMatchDurationMs(match.pack.innings as object, settings)
+      ),
+      summary: `${meta.title} Trivia`,
+      description: match.joinCode
+        ? `Hosted by ${host.displayName}. Join with code ${match.joinCode}.`
+        : `Hosted by ${host.displayName}.`,
+      url: joinUrl,
+    };
+  });
+
+  return generateCalendar(`${host.displayName} Trivia Nights`, events);
+}
+
 /**
  * Update match status
  */
@@ -235,7 +578,7 @@ export async function deleteMatch(matchId: string, hostId: string): Promise<void
   }
 
   // Delete match state from Redis
-  await redisClient.del(`match:${matchId}:state`);
+  await purgeMatchKeys(matchId);
 
   // Delete match from database (cascade will delete players and answers)
   await prisma.match.delete({
@@ -246,7 +589,7 @@ export async function deleteMatch(matchId: string, hostId: string): Promise<void
 /**
  * Get match state from Redis
  */
-export async function getMatchState(matchId: string): Promise<object | null> {
+export async function getMatchState(matchId: string): Promise<MatchState | null> {
   const stateJson = await redisClient.get(`match:${matchId}:state`);
   if (!stateJson) {
     return null;
@@ -262,8 +605,12 @@ export async function getMatchState(matchId: string): Promise<object | null> {
 
 /**
  * Update match state in Redis
+ * Bumps the state version so clients can discard stale updates.
+ * Callers must hold the match lock (see withMatchLock).
  */
-export async function updateMatchState(matchId: string, state: object): Promise<void> {
+export async function updateMatchState(matchId: string, state: MatchState): Promise<void> {
+  state.version = (state.version ?? 0) + 1;
+
   await redisClient.setex(
     `match:${matchId}:state`,
     86400, // 24 hours
@@ -271,6 +618,31 @@ export async function updateMatchState(matchId: string, state: object): Promise<
   );
 }
 
+/**
+ * Delete every per-match Redis key (state, answer caches, tie-break answers)
+ * The match lock is left alone so a caller holding it can still release it.
+ */
+export async function purgeMatchKeys(matchId: string): Promise<void> {
+  const lockKey = `match:${matchId}:lock`;
+  let cursor = '0';
+
+  do {
+    const [next, keys] = await redisClient.scan(
+      cursor,
+      'MATCH',
+      `match:${matchId}:*`,
+      'COUNT',
+      100
+    );
+    cursor = next;
+
+    const purge = keys.filter((key) => key !== lockKey);
+    if (purge.length > 0) {
+      await redisClient.del(...purge);
+    }
+  } while (cursor !== '0');
+}
+
 /**
  * Get match summary (post-game statistics)
  */
@@ -291,14 +663,26 @@ export async function getMatchSummary(matchId: string): Promise<object> {
     throw new Error('Match not found');
   }
 
+  // Box scores and streaks run up to where the match got to;
+  // without a checkpoint, the last answered question
+  const innings = match.pack.innings as unknown as Array<{ questions: unknown[] }>;
+  const answers = match.players.flatMap((player) => player.answers);
+  const lastAnswer = [...answers].sort(
+    (a, b) => b.inningIdx - a.inningIdx || b.questionIdx - a.questionIdx
+  )[0];
+  const position = (match.checkpoint as unknown as MatchCheckpoint | null) ?? {
+    phase: lastAnswer ? MatchPhase.REVEAL : MatchPhase.LOBBY,
+    inning: lastAnswer?.inningIdx ?? 0,
+    questionIdx: lastAnswer?.questionIdx ?? 0,
+  };
+  const questionsPlayed = getQuestionsPlayed(innings, position);
+  const streaks = buildStreaks(match.players, answers, questionsPlayed);
+
   // Calculate statistics
-  const playerStats = match.players.map((player) => {
+  const playerStats = match.players.map((player, i) => {
     const correctAnswers = player.answers.filter((a) => a.isCorrect).length;
     const totalAnswers = player.answers.length;
-    const totalRuns = player.answers.reduce((sum, a) => {
-      if (!a.isCorrect) return sum;
-      return sum + (a.bonusAwarded ? 4 : 1);
-    }, 0);
+    const totalRuns = player.answers.reduce((sum, a) => sum + a.runsAwarded, 0);
     const avgAnswerTime =
       player.answers.reduce((sum, a) => sum + a.answerMs, 0) / (totalAnswers || 1);
 
@@ -312,6 +696,7 @@ export async function getMatchSummary(matchId: string): Promise<object> {
       total: totalAnswers,
       accuracy: totalAnswers > 0 ? (correctAnswers / totalAnswers) * 100 : 0,
       avgAnswerTime: Math.round(avgAnswerTime),
+      longestStreak: streaks[i].longest,
     };
   });
 
@@ -324,6 +709,15 @@ export async function getMatchSummary(matchId: string): Promise<object> {
   // Determine MVP
   const mvp = playerStats.length > 0 ? playerStats[0] : null;
 
+  // Longest hit streak of the match; ties go to the higher-ranked player
+  const streakLeader = [...playerStats].sort((a, b) => b.longestStreak - a.longestStreak)[0];
+
+  const boxScore = buildBoxScores(
+    playerStats.map((stats) => match.players.find((p) => p.id === stats.playerId)!),
+    answers,
+    questionsPlayed
+  );
+
   return {
     matchId: match.id,
     status: match.status,
@@ -339,7 +733,16 @@ export async function getMatchSummary(matchId: string): Promise<object> {
         : null,
     playerCount: match.players.length,
     players: playerStats,
+    boxScore,
     mvp,
+    longestStreak:
+      streakLeader && streakLeader.longestStreak > 0
+        ? {
+            playerId: streakLeader.playerId,
+            nickname: streakLeader.nickname,
+            streak: streakLeader.longestStreak,
+          }
+        : null,
     createdAt: match.createdAt,
     startedAt: match.startedAt,
     endedAt: match.endedAt,
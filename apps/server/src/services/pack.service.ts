@@ -65,6 +65,7 @@ export async function importPack(
       ownerId,
       meta: packData.meta as object,
       innings: packData.innings as object,
+      tiebreak: packData.tiebreak as object | undefined,
       tags: packData.tags || [],
       isFeatured: false,
       isKidsSafe: packData.isKidsSafe || false,
@@ -154,10 +155,11 @@ export async function updatePack(
   }
 
   // Validate updates
-  if (updates.meta || updates.innings) {
+  if (updates.meta || updates.innings || updates.tiebreak) {
     const fullPack = {
       meta: updates.meta || (pack.meta as PackData['meta']),
       innings: updates.innings || (pack.innings as PackData['innings']),
+      tiebreak: updates.tiebreak || (pack.tiebreak as PackData['tiebreak']) || undefined,
       tags: updates.tags || pack.tags,
       isKidsSafe: updates.isKidsSafe ?? pack.isKidsSafe,
     };
@@ -174,6 +176,7 @@ export async function updatePack(
     data: {
       ...(updates.meta && { meta: updates.meta as object }),
       ...(updates.innings && { innings: updates.innings as object }),
+      ...(updates.tiebreak && { tiebreak: updates.tiebreak as object }),
       ...(updates.tags && { tags: updates.tags }),
       ...(updates.isKidsSafe !== undefined && { isKidsSafe: updates.isKidsSafe }),
     },
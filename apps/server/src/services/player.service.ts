@@ -1,7 +1,20 @@
 import { PrismaClient } from '@prisma/client';
 import type { MatchPlayer as PrismaMatchPlayer } from '@prisma/client';
-import type { MatchState, MatchPlayer } from '@jaysgame/shared';
-import { redisClient } from '../config/redis';
+import { MatchPhase, PlayerRole } from '@jaysgame/shared';
+import type {
+  JoinErrorCode,
+  JoinSettings,
+  MatchSettings,
+  MatchState,
+  MatchPlayer,
+  PlayerScore,
+  TeamSettings,
+} from '@jaysgame/shared';
+import { withMatchLock } from '../utils/match-lock';
+import { recordMatchEvent } from './event.service';
+import { DEFAULT_MATCH_SETTINGS, getMatchState, updateMatchState } from './match.service';
+import { loadMatchState } from './recovery.service';
+import { MAX_TEAM_NAME_LENGTH, createTeam, findTeamByName, getSmallestTeam } from './team.service';
 
 const prisma = new PrismaClient();
 
@@ -11,6 +24,8 @@ export interface JoinMatchRequest {
   avatar?: string;
   cityOptIn: boolean;
   city?: string;
+  // Team name, for matches played in teams
+  team?: string;
   socketId: string;
 }
 
@@ -19,32 +34,163 @@ export interface JoinMatchResult {
   state: MatchState;
 }
 
+/**
+ * A join refused by the match's status or join policy
+ * `code` lets the join page show a specific message.
+ */
+export class JoinMatchError extends Error {
+  constructor(
+    public readonly code: JoinErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'JoinMatchError';
+  }
+}
+
+/**
+ * Convert a player row to the shape kept in match state
+ */
+export function toMatchPlayer(player: PrismaMatchPlayer): MatchPlayer {
+  return {
+    id: player.id,
+    matchId: player.matchId,
+    nickname: player.nickname,
+    role: player.role as PlayerRole,
+    avatar: player.avatar || undefined,
+    city: player.city || undefined,
+    socketId: player.socketId || undefined,
+    teamId: player.teamId || undefined,
+    joinedAt: player.joinedAt,
+  };
+}
+
+/**
+ * Check whether the join policy still lets new players in as players
+ */
+function isJoinOpen(state: MatchState, join: JoinSettings): boolean {
+  if (state.phase === MatchPhase.LOBBY) {
+    return true;
+  }
+
+  switch (join.policy) {
+    case 'lobby_only':
+    case 'spectate_late':
+      return false;
+    case 'until_inning':
+      return state.inning + 1 <= join.untilInning;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Count the players taking part (not spectators or waitlisted)
+ */
+function countPlayers(state: MatchState): number {
+  return state.players.filter((p) => (p.role ?? PlayerRole.PLAYER) === PlayerRole.PLAYER).length;
+}
+
+/**
+ * Decide the role a new player joins with, or refuse the join
+ */
+function getJoinRole(state: MatchState, join: JoinSettings): PlayerRole {
+  if (!isJoinOpen(state, join)) {
+    if (join.policy === 'spectate_late') {
+      return PlayerRole.SPECTATOR;
+    }
+
+    throw new JoinMatchError(
+      'JOIN_CLOSED',
+      join.policy === 'lobby_only'
+        ? 'This match has already started'
+        : `Joining closed after inning ${join.untilInning}`
+    );
+  }
+
+  if (join.maxPlayers !== null && countPlayers(state) >= join.maxPlayers) {
+    return PlayerRole.WAITLISTED;
+  }
+
+  return PlayerRole.PLAYER;
+}
+
+/**
+ * Decide the team a new player plays for
+ * A named team is joined, or started if players may create teams; without a
+ * name the player is placed on the smallest team. Must be called while holding
+ * the match lock, as new teams are added to the state.
+ */
+async function getJoinTeam(
+  state: MatchState,
+  teams: TeamSettings,
+  name: string | undefined
+): Promise<string | undefined> {
+  if (!teams.enabled) {
+    return undefined;
+  }
+
+  const teamName = name?.trim().slice(0, MAX_TEAM_NAME_LENGTH);
+  if (!teamName) {
+    return getSmallestTeam(state)?.id;
+  }
+
+  const existing = findTeamByName(state.teams ?? [], teamName);
+  if (existing) {
+    return existing.id;
+  }
+
+  if (!teams.allowPlayerTeams) {
+    throw new JoinMatchError('INVALID_REQUEST', 'Pick one of the teams set up for this match');
+  }
+
+  const team = await createTeam(state.matchId, teamName);
+  state.teams = [...(state.teams ?? []), team];
+  return team.id;
+}
+
 /**
  * Player joins a match
  */
 export async function joinMatch(request: JoinMatchRequest): Promise<JoinMatchResult> {
-  const { matchId, nickname, avatar, cityOptIn, city, socketId } = request;
+  const { matchId } = request;
 
   // Verify match exists and is joinable
   const match = await prisma.match.findUnique({
     where: { id: matchId },
-    include: {
-      pack: {
-        select: {
-          innings: true,
-        },
-      },
-    },
   });
 
   if (!match) {
-    throw new Error('Match not found');
+    throw new JoinMatchError('MATCH_NOT_FOUND', 'Match not found');
   }
 
   if (match.status === 'COMPLETED' || match.status === 'ABANDONED') {
-    throw new Error('Match has ended. Cannot join.');
+    throw new JoinMatchError('MATCH_ENDED', 'Match has ended. Cannot join.');
   }
 
+  const settings = match.settings as unknown as MatchSettings;
+
+  // Serialize joins so concurrent players never overwrite each other in the roster
+  return withMatchLock(matchId, () =>
+    addPlayerToMatch(
+      request,
+      settings.join ?? DEFAULT_MATCH_SETTINGS.join,
+      settings.teams ?? DEFAULT_MATCH_SETTINGS.teams
+    )
+  );
+}
+
+/**
+ * Create the player and add them to the match state
+ * Must be called while holding the match lock
+ */
+async function addPlayerToMatch(
+  request: JoinMatchRequest,
+  join: JoinSettings,
+  teams: TeamSettings
+): Promise<JoinMatchResult> {
+  const { matchId, nickname, avatar, cityOptIn, city, team, socketId } = request;
+
   // Check for duplicate nickname in this match
   const existingPlayer = await prisma.matchPlayer.findFirst({
     where: {
@@ -59,40 +205,31 @@ export async function joinMatch(request: JoinMatchRequest): Promise<JoinMatchRes
     return reconnectPlayer(matchId, existingPlayer.id, socketId);
   }
 
+  // Load current match state (rebuilt from Postgres if it was lost)
+  const state = await loadMatchState(matchId);
+  const role = getJoinRole(state, join);
+  const teamId = await getJoinTeam(state, teams, team);
+
   // Create new player
   const player = await prisma.matchPlayer.create({
     data: {
       matchId,
       nickname,
+      role,
       avatar,
       city: cityOptIn ? city : null,
       socketId,
+      teamId,
     },
   });
 
-  // Load current match state from Redis
-  const stateJson = await redisClient.get(`match:${matchId}:state`);
-  if (!stateJson) {
-    throw new Error('Match state not found');
-  }
-
-  const state = JSON.parse(stateJson) as MatchState;
-
   // Add player to state
-  const matchPlayer: MatchPlayer = {
-    id: player.id,
-    matchId: player.matchId,
-    nickname: player.nickname,
-    avatar: player.avatar || undefined,
-    city: player.city || undefined,
-    socketId: player.socketId || undefined,
-    joinedAt: player.joinedAt,
-  };
-
+  const matchPlayer = toMatchPlayer(player);
   state.players.push(matchPlayer);
 
   // Save updated state
-  await redisClient.setex(`match:${matchId}:state`, 86400, JSON.stringify(state));
+  await updateMatchState(matchId, state);
+  await recordMatchEvent(matchId, 'player_joined', { player: matchPlayer }, { actorId: player.id });
 
   return {
     player: matchPlayer,
@@ -108,66 +245,55 @@ export async function reconnectPlayer(
   playerId: string,
   newSocketId: string
 ): Promise<JoinMatchResult> {
-  // Update player's socketId
-  const player = await prisma.matchPlayer.update({
-    where: { id: playerId },
-    data: {
-      socketId: newSocketId,
-      leftAt: null, // Mark as rejoined
-    },
-  });
+  return withMatchLock(matchId, async () => {
+    // Update player's socketId
+    const player = await prisma.matchPlayer.update({
+      where: { id: playerId },
+      data: {
+        socketId: newSocketId,
+        leftAt: null, // Mark as rejoined
+      },
+    });
 
-  // Load current match state
-  const stateJson = await redisClient.get(`match:${matchId}:state`);
-  if (!stateJson) {
-    throw new Error('Match state not found');
-  }
-
-  const state = JSON.parse(stateJson) as MatchState;
-
-  // Update player in state
-  const playerIndex = state.players.findIndex((p) => p.id === playerId);
-  if (playerIndex !== -1) {
-    state.players[playerIndex].socketId = newSocketId;
-  } else {
-    // Player not in state, add them
-    const matchPlayer: MatchPlayer = {
-      id: player.id,
-      matchId: player.matchId,
-      nickname: player.nickname,
-      avatar: player.avatar || undefined,
-      city: player.city || undefined,
-      socketId: player.socketId || undefined,
-      joinedAt: player.joinedAt,
-    };
-    state.players.push(matchPlayer);
-  }
+    // Load current match state
+    const state = await loadMatchState(matchId);
 
-  // Save updated state
-  await redisClient.setex(`match:${matchId}:state`, 86400, JSON.stringify(state));
+    const matchPlayer = toMatchPlayer(player);
 
-  const matchPlayer: MatchPlayer = {
-    id: player.id,
-    matchId: player.matchId,
-    nickname: player.nickname,
-    avatar: player.avatar || undefined,
-    city: player.city || undefined,
-    socketId: player.socketId || undefined,
-    joinedAt: player.joinedAt,
-  };
+    // Update player in state
+    const playerIndex = state.players.findIndex((p) => p.id === playerId);
+    if (playerIndex !== -1) {
+      state.players[playerIndex].socketId = newSocketId;
+    } else {
+      // Player not in state, add them
+      state.players.push(matchPlayer);
+    }
 
-  return {
-    player: matchPlayer,
-    state,
-  };
+    // Save updated state
+    await updateMatchState(matchId, state);
+
+    await recordMatchEvent(
+      matchId,
+      'player_joined',
+      { player: matchPlayer, reconnected: true },
+      { actorId: player.id }
+    );
+
+    return {
+      player: matchPlayer,
+      state,
+    };
+  });
 }
 
 /**
  * Player leaves a match
+ * A player leaving frees a spot, so the first waitlisted player is promoted if
+ * the join policy still admits players. Returns the updated state, if any.
  */
-export async function leaveMatch(matchId: string, playerId: string): Promise<void> {
+export async function leaveMatch(matchId: string, playerId: string): Promise<MatchState | null> {
   // Mark player as left
-  await prisma.matchPlayer.update({
+  const player = await prisma.matchPlayer.update({
     where: { id: playerId },
     data: {
       leftAt: new Date(),
@@ -175,19 +301,66 @@ export async function leaveMatch(matchId: string, playerId: string): Promise<voi
     },
   });
 
-  // Load state from Redis
-  const stateJson = await redisClient.get(`match:${matchId}:state`);
-  if (!stateJson) {
-    return; // State doesn't exist, nothing to update
+  await recordMatchEvent(matchId, 'player_left', { playerId }, { actorId: playerId });
+
+  return withMatchLock(matchId, async () => {
+    // Load state from Redis
+    const state = await getMatchState(matchId);
+    if (!state) {
+      return null; // State doesn't exist, nothing to update
+    }
+
+    // Remove player from active players list
+    state.players = state.players.filter((p) => p.id !== playerId);
+
+    if (player.role === PlayerRole.PLAYER) {
+      await promoteWaitlistedPlayer(matchId, state);
+    }
+
+    // Save updated state
+    await updateMatchState(matchId, state);
+    return state;
+  });
+}
+
+/**
+ * Move the longest-waiting waitlisted player into a free spot
+ * Must be called while holding the match lock; the caller saves the state.
+ */
+async function promoteWaitlistedPlayer(matchId: string, state: MatchState): Promise<void> {
+  const match = await prisma.match.findUnique({
+    where: { id: matchId },
+  });
+  if (!match) {
+    return;
   }
 
-  const state = JSON.parse(stateJson) as MatchState;
+  const join = (match.settings as unknown as MatchSettings).join ?? DEFAULT_MATCH_SETTINGS.join;
+  if (
+    !isJoinOpen(state, join) ||
+    (join.maxPlayers !== null && countPlayers(state) >= join.maxPlayers)
+  ) {
+    return;
+  }
 
-  // Remove player from active players list
-  state.players = state.players.filter((p) => p.id !== playerId);
+  // State keeps players in join order
+  const next = state.players.find((p) => p.role === PlayerRole.WAITLISTED);
+  if (!next) {
+    return;
+  }
 
-  // Save updated state
-  await redisClient.setex(`match:${matchId}:state`, 86400, JSON.stringify(state));
+  await prisma.matchPlayer.update({
+    where: { id: next.id },
+    data: { role: PlayerRole.PLAYER },
+  });
+  next.role = PlayerRole.PLAYER;
+
+  await recordMatchEvent(
+    matchId,
+    'player_joined',
+    { player: next, promoted: true },
+    { actorId: next.id }
+  );
 }
 
 /**
@@ -229,11 +402,59 @@ export async function getPlayerScore(
 
   const correct = answers.filter((a) => a.isCorrect).length;
   const total = answers.length;
-  const runs = answers.reduce((sum, a) => {
-    if (!a.isCorrect) return sum;
-    // Award runs: +1 for correct, +4 if bonus (grand slam or speed bonus)
-    return sum + (a.bonusAwarded ? 4 : 1);
-  }, 0);
+  const runs = answers.reduce((sum, a) => sum + a.runsAwarded, 0);
 
   return { runs, correct, total };
 }
+
+/**
+ * Calculate scores for every active player in a match
+ * Spectators and waitlisted players are left out.
+ * Optionally restricted to a range of innings (inclusive), e.g. one game of a series
+ */
+export async function calculateLeaderboard(
+  matchId: string,
+  innings?: { from: number; to: number }
+): Promise<PlayerScore[]> {
+  const [players, answers] = await Promise.all([
+    prisma.matchPlayer.findMany({
+      where: { matchId, leftAt: null, role: PlayerRole.PLAYER },
+    }),
+    prisma.matchAnswer.findMany({
+      where: {
+        matchId,
+        ...(innings && { inningIdx: { gte: innings.from, lte: innings.to } }),
+      },
+      select: { playerId: true, isCorrect: true, runsAwarded: true, answerMs: true },
+    }),
+  ]);
+
+  const scores = new Map<string, PlayerScore>(
+    players.map((p) => [
+      p.id,
+      {
+        playerId: p.id,
+        nickname: p.nickname,
+        avatar: p.avatar || undefined,
+        runs: 0,
+        correct: 0,
+        total: 0,
+        totalTimeMs: 0,
+      },
+    ])
+  );
+
+  for (const answer of answers) {
+    const score = scores.get(answer.playerId);
+    if (!score) {
+      continue;
+    }
+
+    score.runs += answer.runsAwarded;
+    score.correct += answer.isCorrect ? 1 : 0;
+    score.total += 1;
+    score.totalTimeMs += answer.answerMs;
+  }
+
+  return [...scores.values()];
+}
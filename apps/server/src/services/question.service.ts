@@ -1,4 +1,14 @@
-import type { QuestionPayload, Question, QuestionType } from '@jaysgame/shared';
+import type {
+  AnswerKey,
+  AnswerKeyOverride,
+  Inning,
+  QuestionPayload,
+  Question,
+  QuestionType,
+} from '@jaysgame/shared';
+import { findPlace, listPlaces } from '../utils/gazetteer';
+import { getClosestDistance, gradeClosestGuess } from './closest.service';
+import { getMapPlace, gradeMapAnswer } from './map.service';
 
 export interface FormatQuestionOptions {
   matchId: string;
@@ -6,13 +16,15 @@ export interface FormatQuestionOptions {
   inning: number;
   questionIdx: number;
   timerSec: number;
+  // Grand Slam mode is on for the match
+  grandSlamEnabled?: boolean;
 }
 
 /**
  * Format a question for broadcasting to clients
  */
 export function formatQuestion(options: FormatQuestionOptions): QuestionPayload {
-  const { matchId, question, inning, questionIdx, timerSec } = options;
+  const { matchId, question, inning, questionIdx, timerSec, grandSlamEnabled } = options;
 
   const basePayload: QuestionPayload = {
     id: `${matchId}-${inning}-${questionIdx}`,
@@ -21,8 +33,13 @@ export function formatQuestion(options: FormatQuestionOptions): QuestionPayload
     timerSec,
     inning,
     questionIdx,
+    grandSlam: grandSlamEnabled === true && question.grandSlam === true,
   };
 
+  if (question.wager) {
+    basePayload.wager = true;
+  }
+
   // Add type-specific fields
   switch (question.type) {
     case 'mc':
@@ -40,6 +57,12 @@ export function formatQuestion(options: FormatQuestionOptions): QuestionPayload
 
     case 'closest':
       // Closest questions don't send choices
+      basePayload.unit = question.unit;
+      break;
+
+    case 'map':
+      // Players pick from the gazetteer, or drop a pin
+      basePayload.places = listPlaces(question.placeKind);
       break;
 
     default:
@@ -97,6 +120,17 @@ export function validateQuestion(question: Question): { valid: boolean; error?:
       }
       break;
 
+    case 'map': {
+      const place = findPlace(question.correctPlace ?? '');
+      if (!place) {
+        return { valid: false, error: `Unknown map place: ${question.correctPlace}` };
+      }
+      if (question.placeKind && place.kind !== question.placeKind) {
+        return { valid: false, error: `Map place ${place.name} is not a ${question.placeKind}` };
+      }
+      break;
+    }
+
     default: {
       // This should never happen at runtime, but we handle it for safety
       const unknownType = (question as { type: string }).type;
@@ -121,6 +155,9 @@ export function getCorrectAnswer(question: Question): string | number | boolean
 
     case 'closest':
       return question.correctValue;
+
+    case 'map':
+      return getMapPlace(question).name;
   }
 }
 
@@ -136,9 +173,89 @@ export function isAnswerCorrect(question: Question, answer: string): boolean {
     case 'tf':
       return answer.toLowerCase() === question.correctAnswer.toString().toLowerCase();
 
-    case 'closest':
-      // For closest questions, we can't determine correctness until all answers are in
-      // This will be handled in the reveal phase
-      return false;
+    case 'closest': {
+      // Only guesses inside a band or dead on are known to score before the reveal;
+      // the nearest guesses are picked once all answers are in
+      const distance = getClosestDistance(question, answer);
+      return distance !== null && gradeClosestGuess(question, distance) > 0;
+    }
+
+    case 'map':
+      return gradeMapAnswer(question, answer) > 0;
+  }
+}
+
+/**
+ * Check whether a pack question is a Grand Slam
+ * Questions flagged in the pack decide it; a pack that flags none makes its last question the Grand Slam.
+ */
+export function isGrandSlamQuestion(
+  innings: Inning[],
+  inning: number,
+  questionIdx: number
+): boolean {
+  const question = innings[inning]?.questions[questionIdx];
+  if (question?.grandSlam !== undefined) {
+    return question.grandSlam;
   }
+
+  if (innings.some((i) => i.questions.some((q) => q.grandSlam))) {
+    return false;
+  }
+
+  const lastInning = innings.length - 1;
+  return inning === lastInning && questionIdx === innings[lastInning].questions.length - 1;
+}
+
+/**
+ * Get a pack question with any host correction to its answer applied
+ * The Grand Slam flag is resolved, so it is always set on the result.
+ */
+export function getMatchQuestion(
+  innings: Inning[],
+  answerKey: AnswerKey | null | undefined,
+  inning: number,
+  questionIdx: number
+): Question | undefined {
+  const question = innings[inning]?.questions[questionIdx];
+  if (!question) {
+    return undefined;
+  }
+
+  const override = answerKey?.[`${inning}:${questionIdx}`];
+  return {
+    ...question,
+    ...override,
+    grandSlam: isGrandSlamQuestion(innings, inning, questionIdx),
+  } as Question;
+}
+
+/**
+ * Build the answer key override for a host correction
+ * Only the field that applies to the question type is kept.
+ */
+export function createAnswerKeyOverride(
+  question: Question,
+  correction: AnswerKeyOverride
+): AnswerKeyOverride {
+  const field: keyof AnswerKeyOverride =
+    question.type === 'tf'
+      ? 'correctAnswer'
+      : question.type === 'closest'
+        ? 'correctValue'
+        : question.type === 'map'
+          ? 'correctPlace'
+          : 'correctIndex';
+
+  if (correction[field] === undefined) {
+    throw new Error(`Correcting a ${question.type} question requires ${field}`);
+  }
+
+  const override: AnswerKeyOverride = { [field]: correction[field] };
+  const validation = validateQuestion({ ...question, ...override } as Question);
+  if (!validation.valid) {
+    throw new Error(`Invalid correction: ${validation.error}`);
+  }
+
+  return override;
 }
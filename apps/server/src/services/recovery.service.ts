@@ -0,0 +1,272 @@
+import { PrismaClient } from '@prisma/client';
+import { MatchPhase } from '@jaysgame/shared';
+import type { AnswerKey, MatchSettings, MatchState, Question } from '@jaysgame/shared';
+import { withMatchLock } from '../utils/match-lock';
+import { calculateInningRuns } from './answer.service';
+import { getMatchState, updateMatchState } from './match.service';
+import { syncLeaderboard } from './leaderboard.service';
+import { toMatchPlayer } from './player.service';
+import { formatQuestion, getMatchQuestion } from './question.service';
+import { scheduleMatchJob } from './scheduler.service';
+import { getAutoAdvanceToken } from './state-machine.service';
+import { calculateBoxScore } from './box-score.service';
+import { calculateStreaks } from './streak.service';
+import { calculateTeamScores, toTeam } from './team.service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Match state recovery
+ *
+ * Redis holds the live MatchState with a 24h TTL. Postgres keeps everything
+ * needed to rebuild it: the match row with its pack and settings, the players
+ * and teams, their answers, and a checkpoint of the last phase and question
+ * reached.
+ */
+
+/**
+ * Position of a match in its flow, persisted on the Match row
+ * Scores and the roster are not stored here; they are derived from answers, players and teams.
+ */
+export type MatchCheckpoint = Omit<
+  MatchState,
+  | 'matchId'
+  | 'leaderboard'
+  | 'players'
+  | 'boxScore'
+  | 'streaks'
+  | 'teams'
+  | 'teamLeaderboard'
+  | 'teamLineScore'
+  | 'version'
+>;
+
+/**
+ * Identify the checkpointed position of a state
+ * A new checkpoint is only written when this changes.
+ */
+export function getCheckpointKey(state: MatchState): string {
+  return [
+    state.phase,
+    state.inning,
+    state.questionIdx,
+    state.lockedAt ?? '',
+    state.series?.currentGame ?? '',
+    state.tiebreak?.round ?? '',
+  ].join(':');
+}
+
+/**
+ * Persist the current position of a match to Postgres
+ */
+export async function saveMatchCheckpoint(matchId: string, state: MatchState): Promise<void> {
+  const checkpoint: Partial<MatchState> = { ...state };
+  delete checkpoint.matchId;
+  delete checkpoint.leaderboard;
+  delete checkpoint.players;
+  delete checkpoint.boxScore;
+  delete checkpoint.streaks;
+  delete checkpoint.teams;
+  delete checkpoint.teamLeaderboard;
+  delete checkpoint.teamLineScore;
+  delete checkpoint.version;
+
+  await prisma.match.update({
+    where: { id: matchId },
+    data: { checkpoint: checkpoint as object },
+  });
+}
+
+/**
+ * Rebuild match state from Postgres
+ * Uses the checkpoint when one exists, otherwise infers the position from the
+ * match status and the last answered question.
+ */
+export async function rebuildMatchState(matchId: string): Promise<MatchState> {
+  const match = await prisma.match.findUnique({
+    where: { id: matchId },
+    include: {
+      pack: true,
+      players: {
+        where: { leftAt: null },
+        orderBy: { joinedAt: 'asc' },
+      },
+      teams: { orderBy: { createdAt: 'asc' } },
+    },
+  });
+
+  if (!match) {
+    throw new Error('Match not found');
+  }
+
+  const innings = match.pack.innings as unknown as Array<{
+    theme: string;
+    questions: Question[];
+  }>;
+  const settings = match.settings as unknown as MatchSettings;
+  const checkpoint = match.checkpoint as unknown as MatchCheckpoint | null;
+
+  let position: MatchCheckpoint;
+  if (checkpoint) {
+    position = checkpoint;
+  } else if (match.status === 'LOBBY') {
+    position = {
+      phase: MatchPhase.LOBBY,
+      inning: 0,
+      questionIdx: 0,
+      lineScore: [],
+      scheduledStartAt: match.scheduledStartAt?.getTime(),
+    };
+  } else {
+    // No checkpoint yet: resume on the reveal of the last answered question
+    const lastAnswer = await prisma.matchAnswer.findFirst({
+      where: { matchId },
+      orderBy: [{ inningIdx: 'desc' }, { questionIdx: 'desc' }],
+    });
+    const inning = lastAnswer?.inningIdx ?? 0;
+    const questionIdx = lastAnswer?.questionIdx ?? 0;
+
+    position = {
+      phase: MatchPhase.REVEAL,
+      inning,
+      questionIdx,
+      question: formatQuestion({
+        matchId,
+        question: getMatchQuestion(
+          innings,
+          match.answerKey as unknown as AnswerKey | null,
+          inning,
+          questionIdx
+        )!,
+        inning,
+        questionIdx,
+        timerSec: settings.timerSec,
+        grandSlamEnabled: settings.grandSlam,
+      }),
+      lockedAt: Date.now(),
+      lineScore: [],
+    };
+  }
+
+  // A finished match always comes back as postgame
+  if (match.status === 'COMPLETED' || match.status === 'ABANDONED') {
+    position = {
+      ...position,
+      phase: MatchPhase.POSTGAME,
+      question: undefined,
+      endsAt: undefined,
+    };
+  }
+
+  const players = match.players.map(toMatchPlayer);
+
+  // Also restores the live leaderboard, which expires along with the state
+  const leaderboard = await syncLeaderboard(matchId);
+
+  const state: MatchState = {
+    ...position,
+    matchId,
+    lineScore: await rebuildLineScore(matchId, position, innings.length),
+    leaderboard,
+    players,
+    teams: match.teams.map(toTeam),
+    // Start above any version clients may still hold from before the state was lost
+    version: Date.now(),
+  };
+
+  if (position.phase !== MatchPhase.LOBBY) {
+    state.boxScore = await calculateBoxScore(state, innings);
+    state.streaks = await calculateStreaks(state, innings);
+  }
+  if (settings.teams?.enabled && position.phase !== MatchPhase.LOBBY) {
+    Object.assign(state, await calculateTeamScores(state, settings.teams.scoring));
+  }
+
+  return state;
+}
+
+/**
+ * Recompute the line score from answers
+ * Innings are only filled in once play has reached their first reveal.
+ */
+async function rebuildLineScore(
+  matchId: string,
+  position: MatchCheckpoint,
+  inningCount: number
+): Promise<(number | null)[]> {
+  const phase = position.phase === MatchPhase.PAUSED ? position.resumePhase : position.phase;
+  const currentOpen = phase === MatchPhase.WAGER || phase === MatchPhase.QUESTION;
+  const currentInningRevealed =
+    phase !== MatchPhase.LOBBY && (!currentOpen || position.questionIdx > 0);
+
+  return Promise.all(
+    Array.from({ length: inningCount }, (_, inning) => {
+      if (inning < position.inning || (inning === position.inning && currentInningRevealed)) {
+        return calculateInningRuns(matchId, inning);
+      }
+      return null;
+    })
+  );
+}
+
+/**
+ * Re-arm the scheduled timers for a recovered state
+ * Timers that already expired fire immediately.
+ */
+export async function restoreMatchTimers(matchId: string, state: MatchState): Promise<void> {
+  const answering = state.phase === MatchPhase.QUESTION || state.phase === MatchPhase.TIEBREAK;
+
+  if (answering && !state.lockedAt && state.question && state.endsAt) {
+    await scheduleMatchJob(matchId, 'question:timeout', state.endsAt, state.question.id);
+  } else if (state.phase === MatchPhase.WAGER && state.wager && state.endsAt) {
+    await scheduleMatchJob(matchId, 'wager:end', state.endsAt, state.wager.questionId);
+  } else if (state.phase === MatchPhase.TIEBREAK && state.question) {
+    await scheduleMatchJob(matchId, 'auto:advance', Date.now(), state.question.id);
+  } else if (state.phase === MatchPhase.STRETCH && state.endsAt) {
+    await scheduleMatchJob(matchId, 'stretch:end', state.endsAt);
+  } else if (state.phase === MatchPhase.LOBBY && state.scheduledStartAt) {
+    await scheduleMatchJob(
+      matchId,
+      'lobby:countdown',
+      state.scheduledStartAt,
+      String(state.scheduledStartAt)
+    );
+  } else if (state.autoAdvanceAt) {
+    await scheduleMatchJob(
+      matchId,
+      'auto:advance',
+      state.autoAdvanceAt,
+      getAutoAdvanceToken(state)
+    );
+  }
+}
+
+/**
+ * Rebuild match state from Postgres and store it in Redis
+ */
+async function recoverMatchState(matchId: string): Promise<MatchState> {
+  return withMatchLock(matchId, async () => {
+    const state = await rebuildMatchState(matchId);
+
+    await updateMatchState(matchId, state);
+    await restoreMatchTimers(matchId, state);
+
+    console.info(`Recovered match state for ${matchId} (phase: ${state.phase})`);
+    return state;
+  });
+}
+
+/**
+ * Load match state from Redis, rebuilding it from Postgres if it was lost
+ */
+export async function loadMatchState(matchId: string): Promise<MatchState> {
+  const state = await getMatchState(matchId);
+  if (state) {
+    return state;
+  }
+
+  // Another caller may have recovered it while we waited for the lock
+  return withMatchLock(matchId, async () => {
+    return (await getMatchState(matchId)) ?? recoverMatchState(matchId);
+  });
+}
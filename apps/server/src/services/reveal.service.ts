@@ -1,26 +1,35 @@
 import { PrismaClient } from '@prisma/client';
-import type { Question, QuestionRevealPayload } from '@jaysgame/shared';
-import { getQuestionAnswers, calculateInningRuns } from './answer.service';
-import { getCorrectAnswer } from './question.service';
+import { MatchPhase } from '@jaysgame/shared';
+import type { MatchSettings, Question, QuestionRevealPayload } from '@jaysgame/shared';
+import {
+  NO_ANSWER,
+  awardSpeedBonus,
+  calculateInningRuns,
+  getQuestionAnswers,
+} from './answer.service';
+import { getClosestDistance, gradeClosestAnswers, summarizeGuesses } from './closest.service';
+import { getMapDistance, gradeMapAnswer, summarizeMapGuesses } from './map.service';
+import { getCorrectAnswer, isAnswerCorrect } from './question.service';
+import { getScoringPolicy, settleWager } from './scoring.service';
+import { syncStreakBonuses } from './streak.service';
 
 const prisma = new PrismaClient();
 
 /**
  * Handle "closest" question reveal
- * Awards runs to player(s) with answer closest to correct value
+ * Grades every guess against the question's scoring: bands, nearest N and exact hits
  */
 async function handleClosestQuestion(
   matchId: string,
   inningIdx: number,
   questionIdx: number,
-  question: Question
+  question: Question,
+  settings: MatchSettings
 ): Promise<void> {
   if (question.type !== 'closest') {
     throw new Error('Question is not a closest question');
   }
 
-  const correctValue = question.correctValue;
-
   // Get all answers for this question
   const answers = await prisma.matchAnswer.findMany({
     where: {
@@ -34,36 +43,26 @@ async function handleClosestQuestion(
     return; // No answers to process
   }
 
-  // Find the answer(s) closest to the correct value
-  let minDistance = Infinity;
-  const closestAnswerIds: string[] = [];
+  const grades = gradeClosestAnswers(question, answers);
+  const policy = getScoringPolicy(settings);
 
   for (const answer of answers) {
-    const numericAnswer = parseFloat(answer.choice);
-    if (isNaN(numericAnswer)) {
-      continue; // Invalid numeric answer
-    }
-
-    const distance = Math.abs(correctValue - numericAnswer);
-
-    if (distance < minDistance) {
-      minDistance = distance;
-      closestAnswerIds.length = 0; // Clear previous winners
-      closestAnswerIds.push(answer.id);
-    } else if (distance === minDistance) {
-      closestAnswerIds.push(answer.id); // Tie
-    }
-  }
+    const gradedRuns = grades.get(answer.id)?.runs ?? 0;
+    const isCorrect = gradedRuns > 0;
+    // A forfeited stake only ever loses the stake
+    const { runs, bonusAwarded } =
+      answer.choice === NO_ANSWER
+        ? { runs: 0, bonusAwarded: false }
+        : policy.scoreAnswer(isCorrect, question.grandSlam === true, gradedRuns);
 
-  // Update the closest answer(s) as correct
-  if (closestAnswerIds.length > 0) {
-    await prisma.matchAnswer.updateMany({
-      where: {
-        id: { in: closestAnswerIds },
-      },
+    await prisma.matchAnswer.update({
+      where: { id: answer.id },
       data: {
-        isCorrect: true,
-        bonusAwarded: false,
+        isCorrect,
+        bonusAwarded,
+        runsAwarded: runs + settleWager(isCorrect, answer.wager),
+        speedBonus: false,
+        streakBonus: false,
       },
     });
   }
@@ -75,18 +74,32 @@ async function handleClosestQuestion(
 export async function generateRevealPayload(
   matchId: string,
   questionId: string,
-  question: Question
+  question: Question,
+  innings: Array<{ questions: Question[] }>,
+  settings: MatchSettings
 ): Promise<QuestionRevealPayload> {
   // Parse question metadata from questionId
   const parts = questionId.split('-');
   const inningIdx = parseInt(parts[parts.length - 2], 10);
   const questionIdx = parseInt(parts[parts.length - 1], 10);
 
-  // Handle closest questions specially
+  // Handle closest questions specially; other answers are graded again in case
+  // the host corrected the answer key while the question was open
   if (question.type === 'closest') {
-    await handleClosestQuestion(matchId, inningIdx, questionIdx, question);
+    await handleClosestQuestion(matchId, inningIdx, questionIdx, question, settings);
+  } else {
+    await regradeAnswers(matchId, inningIdx, questionIdx, question, settings);
   }
 
+  // Only now is it known who was fastest, and whose streak this answer extended
+  await awardSpeedBonus(matchId, inningIdx, questionIdx, settings);
+  await syncStreakBonuses(
+    matchId,
+    innings,
+    { phase: MatchPhase.REVEAL, inning: inningIdx, questionIdx },
+    settings
+  );
+
   // Get all answers
   const answers = await getQuestionAnswers(matchId, inningIdx, questionIdx);
 
@@ -104,6 +117,15 @@ export async function generateRevealPayload(
     nickname: answer.nickname,
     isCorrect: answer.isCorrect,
     runsAwarded: answer.runsAwarded,
+    speedBonus: answer.speedBonus,
+    streakBonus: answer.streakBonus || undefined,
+    distance:
+      question.type === 'closest'
+        ? (getClosestDistance(question, answer.choice) ?? undefined)
+        : question.type === 'map'
+          ? (getMapDistance(question, answer.choice) ?? undefined)
+          : undefined,
+    wager: answer.wager > 0 ? answer.wager : undefined,
   }));
 
   return {
@@ -112,6 +134,17 @@ export async function generateRevealPayload(
     correctIndex,
     clipUrl,
     playerResults,
+    closest:
+      question.type === 'closest'
+        ? summarizeGuesses(
+            question,
+            answers.map((answer) => answer.choice)
+          )
+        : undefined,
+    map:
+      question.type === 'map'
+        ? summarizeMapGuesses(question, answers, settings.showMap !== false)
+        : undefined,
   };
 }
 
@@ -122,3 +155,104 @@ export async function updateLineScore(matchId: string, inningIdx: number): Promi
   const runs = await calculateInningRuns(matchId, inningIdx);
   return runs;
 }
+
+/**
+ * Clear the winners picked for a "closest" question
+ * Used when its reveal is undone, so they are picked again at the next reveal
+ */
+export async function resetClosestQuestion(
+  matchId: string,
+  inningIdx: number,
+  questionIdx: number
+): Promise<void> {
+  await prisma.matchAnswer.updateMany({
+    where: {
+      matchId,
+      inningIdx,
+      questionIdx,
+    },
+    data: {
+      isCorrect: false,
+      bonusAwarded: false,
+      runsAwarded: 0,
+      speedBonus: false,
+      streakBonus: false,
+    },
+  });
+}
+
+/**
+ * Grade every answer to a non-closest question against its current answer key
+ * Leaves the speed and streak bonuses off, for the caller to award again.
+ */
+async function regradeAnswers(
+  matchId: string,
+  inningIdx: number,
+  questionIdx: number,
+  question: Question,
+  settings: MatchSettings
+): Promise<void> {
+  const answers = await prisma.matchAnswer.findMany({
+    where: {
+      matchId,
+      inningIdx,
+      questionIdx,
+    },
+  });
+
+  const policy = getScoringPolicy(settings);
+  for (const answer of answers) {
+    const isCorrect = isAnswerCorrect(question, answer.choice);
+    const { runs, bonusAwarded } =
+      answer.choice === NO_ANSWER
+        ? { runs: 0, bonusAwarded: false }
+        : policy.scoreAnswer(
+            isCorrect,
+            question.grandSlam === true,
+            question.type === 'map' ? gradeMapAnswer(question, answer.choice) : undefined
+          );
+    const runsAwarded = runs + settleWager(isCorrect, answer.wager);
+
+    const unchanged =
+      answer.isCorrect === isCorrect &&
+      answer.bonusAwarded === bonusAwarded &&
+      answer.runsAwarded === runsAwarded &&
+      !answer.speedBonus &&
+      !answer.streakBonus;
+    if (unchanged) {
+      continue;
+    }
+
+    await prisma.matchAnswer.update({
+      where: { id: answer.id },
+      data: {
+        isCorrect,
+        bonusAwarded,
+        runsAwarded,
+        speedBonus: false,
+        streakBonus: false,
+      },
+    });
+  }
+}
+
+/**
+ * Re-score every answer to a question, e.g. after the host corrects its answer
+ */
+export async function rescoreQuestion(
+  matchId: string,
+  inningIdx: number,
+  questionIdx: number,
+  question: Question,
+  settings: MatchSettings
+): Promise<void> {
+  if (question.type === 'closest') {
+    await resetClosestQuestion(matchId, inningIdx, questionIdx);
+    await handleClosestQuestion(matchId, inningIdx, questionIdx, question, settings);
+  } else {
+    await regradeAnswers(matchId, inningIdx, questionIdx, question, settings);
+  }
+
+  // Re-awards the speed bonus and drops the cached results
+  await awardSpeedBonus(matchId, inningIdx, questionIdx, settings);
+}
@@ -0,0 +1,241 @@
+import { redisClient } from '../config/redis';
+
+/**
+ * Durable delayed-job scheduler for match timers
+ *
+ * Jobs live in Redis so they survive restarts and are shared by every server
+ * instance behind the Socket.IO Redis adapter. Each instance polls for due jobs
+ * and claims them atomically, so a job fires on exactly one instance. A claimed
+ * job is leased; if the instance dies before finishing, the lease expires and the
+ * job is handed to another instance. Handlers must therefore ignore stale jobs
+ * (see `MatchJob.token`).
+ */
+
+export type MatchJobType =
+  | 'question:timeout'
+  | 'wager:end'
+  | 'stretch:end'
+  | 'auto:advance'
+  | 'lobby:countdown';
+
+export const MATCH_JOB_TYPES: MatchJobType[] = [
+  'question:timeout',
+  'wager:end',
+  'stretch:end',
+  'auto:advance',
+  'lobby:countdown',
+];
+
+export interface MatchJob {
+  type: MatchJobType;
+  matchId: string;
+  runAt: number;
+  // Identifies what the job was scheduled for (e.g. a question ID)
+  token?: string;
+}
+
+export type MatchJobHandler = (job: MatchJob) => Promise<void>;
+
+const JOBS_KEY = 'scheduler:jobs';
+const PAYLOADS_KEY = 'scheduler:payloads';
+const PROCESSING_KEY = 'scheduler:processing';
+const INFLIGHT_KEY = 'scheduler:inflight';
+
+const POLL_INTERVAL_MS = 250;
+const LEASE_MS = 30000;
+const CLAIM_BATCH_SIZE = 50;
+
+/**
+ * Atomically move due jobs into the processing set and return their payloads
+ */
+const CLAIM_SCRIPT = `
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, ARGV[3])
+local claimed = {}
+for _, id in ipairs(due) do
+  local payload = redis.call('HGET', KEYS[2], id)
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('HDEL', KEYS[2], id)
+  if payload then
+    redis.call('ZADD', KEYS[3], ARGV[2], id)
+    redis.call('HSET', KEYS[4], id, payload)
+    table.insert(claimed, payload)
+  end
+end
+return claimed
+`;
+
+/**
+ * Return jobs whose lease expired to the queue, unless they were rescheduled meanwhile
+ */
+const RECLAIM_SCRIPT = `
+local expired = redis.call('ZRANGEBYSCORE', KEYS[3], '-inf', ARGV[1])
+for _, id in ipairs(expired) do
+  local payload = redis.call('HGET', KEYS[4], id)
+  redis.call('ZREM', KEYS[3], id)
+  redis.call('HDEL', KEYS[4], id)
+  if payload and redis.call('HEXISTS', KEYS[2], id) == 0 then
+    redis.call('ZADD', KEYS[1], ARGV[1], id)
+    redis.call('HSET', KEYS[2], id, payload)
+  end
+end
+return #expired
+`;
+
+/**
+ * Release a finished job, unless the same job ID was claimed again since
+ */
+const ACK_SCRIPT = `
+if redis.call('HGET', KEYS[2], ARGV[1]) == ARGV[2] then
+  redis.call('ZREM', KEYS[1], ARGV[1])
+  redis.call('HDEL', KEYS[2], ARGV[1])
+  return 1
+end
+return 0
+`;
+
+const handlers = new Map<MatchJobType, MatchJobHandler>();
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+/**
+ * One job per type per match: scheduling again replaces the pending job
+ */
+function getJobId(matchId: string, type: MatchJobType): string {
+  return `${matchId}:${type}`;
+}
+
+/**
+ * Schedule a job to run at `runAt` (epoch ms)
+ */
+export async function scheduleMatchJob(
+  matchId: string,
+  type: MatchJobType,
+  runAt: number,
+  token?: string
+): Promise<void> {
+  const job: MatchJob = { type, matchId, runAt, token };
+  const jobId = getJobId(matchId, type);
+
+  await redisClient
+    .multi()
+    .hset(PAYLOADS_KEY, jobId, JSON.stringify(job))
+    .zadd(JOBS_KEY, runAt, jobId)
+    .exec();
+}
+
+/**
+ * Cancel a pending job
+ */
+export async function cancelMatchJob(matchId: string, type: MatchJobType): Promise<void> {
+  const jobId = getJobId(matchId, type);
+
+  await redisClient.multi().zrem(JOBS_KEY, jobId).hdel(PAYLOADS_KEY, jobId).exec();
+}
+
+/**
+ * Cancel several pending jobs for a match
+ */
+export async function cancelMatchJobs(matchId: string, types: MatchJobType[]): Promise<void> {
+  await Promise.all(types.map((type) => cancelMatchJob(matchId, type)));
+}
+
+/**
+ * Register the handler that runs jobs of a given type
+ */
+export function registerJobHandler(type: MatchJobType, handler: MatchJobHandler): void {
+  handlers.set(type, handler);
+}
+
+/**
+ * Run a claimed job and release it
+ */
+async function runJob(payload: string): Promise<void> {
+  const job = JSON.parse(payload) as MatchJob;
+  const handler = handlers.get(job.type);
+
+  try {
+    if (!handler) {
+      console.warn(`No handler registered for job type: ${job.type}`);
+    } else {
+      await handler(job);
+    }
+  } catch (error) {
+    console.error(`Job ${job.type} failed for match ${job.matchId}:`, error);
+  } finally {
+    await redisClient.eval(
+      ACK_SCRIPT,
+      2,
+      PROCESSING_KEY,
+      INFLIGHT_KEY,
+      getJobId(job.matchId, job.type),
+      payload
+    );
+  }
+}
+
+/**
+ * Claim and run all due jobs
+ */
+async function poll(): Promise<void> {
+  if (polling) {
+    return;
+  }
+  polling = true;
+
+  try {
+    const now = Date.now();
+
+    await redisClient.eval(
+      RECLAIM_SCRIPT,
+      4,
+      JOBS_KEY,
+      PAYLOADS_KEY,
+      PROCESSING_KEY,
+      INFLIGHT_KEY,
+      now
+    );
+
+    const claimed = (await redisClient.eval(
+      CLAIM_SCRIPT,
+      4,
+      JOBS_KEY,
+      PAYLOADS_KEY,
+      PROCESSING_KEY,
+      INFLIGHT_KEY,
+      now,
+      now + LEASE_MS,
+      CLAIM_BATCH_SIZE
+    )) as string[];
+
+    await Promise.all(claimed.map(runJob));
+  } catch (error) {
+    console.error('Scheduler poll failed:', error);
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Start polling for due jobs
+ */
+export function startScheduler(): void {
+  if (pollTimer) {
+    return;
+  }
+
+  pollTimer = setInterval(() => {
+    void poll();
+  }, POLL_INTERVAL_MS);
+
+  console.info('✓ Match scheduler started');
+}
+
+/**
+ * Stop polling for due jobs
+ */
+export function stopScheduler(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
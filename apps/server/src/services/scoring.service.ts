@@ -0,0 +1,118 @@
+import type { MatchSettings, ScoringPreset } from '@jaysgame/shared';
+import { DEFAULT_MATCH_SETTINGS } from './match.service';
+
+/**
+ * Scoring policies
+ *
+ * All run math goes through the policy selected by the match's `scoring`
+ * setting. The runs an answer earns are stored on it as `runsAwarded`; scores,
+ * line scores and leaderboards only ever add those up.
+ */
+
+export interface AnswerRuns {
+  runs: number;
+  // The Grand Slam counted for this answer
+  bonusAwarded: boolean;
+}
+
+export interface SpeedBonusRule {
+  // How many of the fastest correct answers earn the bonus; 0 when it is off
+  count: number;
+  runs: number;
+}
+
+export interface StreakBonusRule {
+  // Streak length that earns the bonus, again at each multiple; 0 when it is off
+  length: number;
+  runs: number;
+}
+
+export interface ScoringPolicy {
+  preset: ScoringPreset;
+  /**
+   * Runs for an answer, before any speed bonus
+   * Graded questions (closest) pass the runs their grading earned a correct answer.
+   */
+  scoreAnswer(isCorrect: boolean, isGrandSlam: boolean, gradedRuns?: number): AnswerRuns;
+  /**
+   * Speed bonus awarded at reveal
+   */
+  getSpeedBonus(): SpeedBonusRule;
+  /**
+   * Hit streak bonus awarded at reveal
+   */
+  getStreakBonus(): StreakBonusRule;
+}
+
+interface ScoringRules {
+  correctRuns: number;
+  wrongRuns: number;
+  grandSlamRuns: number;
+  // Presets without it ignore the match's speed bonus setting
+  speedBonus: boolean;
+}
+
+const SCORING_PRESETS: Record<ScoringPreset, ScoringRules> = {
+  // 1 run per correct answer, 4 for a Grand Slam, plus the speed bonus
+  classic: { correctRuns: 1, wrongRuns: 0, grandSlamRuns: 4, speedBonus: true },
+  // No points for speed
+  chill: { correctRuns: 1, wrongRuns: 0, grandSlamRuns: 4, speedBonus: false },
+  // Wrong answers cost a run
+  hardcore: { correctRuns: 1, wrongRuns: -1, grandSlamRuns: 4, speedBonus: true },
+};
+
+/**
+ * Runs a wager pays out: the stake won with a correct answer, lost with a wrong one
+ * Added to the answer's runs on top of whatever the policy awards.
+ */
+export function settleWager(isCorrect: boolean, stake: number): number {
+  return isCorrect ? stake : -stake;
+}
+
+/**
+ * Get the scoring policy for a match
+ * Matches created before presets existed score as classic.
+ */
+export function getScoringPolicy(settings: MatchSettings): ScoringPolicy {
+  const preset = settings.scoring ?? DEFAULT_MATCH_SETTINGS.scoring;
+  const rules = SCORING_PRESETS[preset] ?? SCORING_PRESETS.classic;
+
+  return {
+    preset,
+
+    scoreAnswer(isCorrect, isGrandSlam, gradedRuns) {
+      if (!isCorrect) {
+        return { runs: rules.wrongRuns, bonusAwarded: false };
+      }
+
+      const runs = gradedRuns ?? rules.correctRuns;
+      if (settings.grandSlam && isGrandSlam) {
+        return { runs: Math.max(runs, rules.grandSlamRuns), bonusAwarded: true };
+      }
+
+      return { runs, bonusAwarded: false };
+    },
+
+    getSpeedBonus() {
+      if (!rules.speedBonus || !settings.speedBonus) {
+        return { count: 0, runs: 0 };
+      }
+
+      return {
+        count: settings.speedBonusCount ?? DEFAULT_MATCH_SETTINGS.speedBonusCount,
+        runs: settings.speedBonusRuns ?? DEFAULT_MATCH_SETTINGS.speedBonusRuns,
+      };
+    },
+
+    getStreakBonus() {
+      if (!settings.streakBonus) {
+        return { length: 0, runs: 0 };
+      }
+
+      return {
+        length: settings.streakBonusLength ?? DEFAULT_MATCH_SETTINGS.streakBonusLength,
+        runs: settings.streakBonusRuns ?? DEFAULT_MATCH_SETTINGS.streakBonusRuns,
+      };
+    },
+  };
+}
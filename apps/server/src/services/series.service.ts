@@ -0,0 +1,142 @@
+import type { MatchMode, PlayerScore, SeriesGame, SeriesState } from '@jaysgame/shared';
+import { calculateLeaderboard } from './player.service';
+
+/**
+ * Series Service
+ * BEST_OF_3 / BEST_OF_5 matches are played as a series of games. Each game is a
+ * contiguous slice of the pack's innings; the first player to win a majority of
+ * games takes the series.
+ */
+
+/**
+ * Number of games in a series, or null for single-game modes
+ */
+export function getSeriesLength(mode: MatchMode | `${MatchMode}`): number | null {
+  switch (mode) {
+    case 'BEST_OF_3':
+      return 3;
+    case 'BEST_OF_5':
+      return 5;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Split the pack's innings into one slice per game
+ * Leftover innings go to the earliest games
+ */
+export function createSeriesState(
+  mode: MatchMode | `${MatchMode}`,
+  inningCount: number
+): SeriesState | undefined {
+  const totalGames = getSeriesLength(mode);
+  if (!totalGames) {
+    return undefined;
+  }
+
+  if (inningCount < totalGames) {
+    throw new Error(`Pack needs at least ${totalGames} innings for a best-of-${totalGames} series`);
+  }
+
+  const baseInnings = Math.floor(inningCount / totalGames);
+  const extraInnings = inningCount % totalGames;
+  const games: SeriesGame[] = [];
+  let startInning = 0;
+
+  for (let gameIdx = 0; gameIdx < totalGames; gameIdx++) {
+    const length = baseInnings + (gameIdx < extraInnings ? 1 : 0);
+    games.push({
+      gameNumber: gameIdx + 1,
+      startInning,
+      endInning: startInning + length - 1,
+    });
+    startInning += length;
+  }
+
+  return {
+    totalGames,
+    gamesToWin: Math.floor(totalGames / 2) + 1,
+    currentGame: 0,
+    games,
+    wins: {},
+  };
+}
+
+/**
+ * Get the game currently being played
+ */
+export function getCurrentGame(series: SeriesState): SeriesGame {
+  return series.games[series.currentGame];
+}
+
+/**
+ * Check whether an inning is the last inning of the current game
+ */
+export function isFinalInningOfGame(series: SeriesState, inning: number): boolean {
+  return getCurrentGame(series).endInning === inning;
+}
+
+/**
+ * Standings for the current game only, sorted by runs (desc) then total time (asc)
+ */
+export async function calculateGameStandings(
+  matchId: string,
+  series: SeriesState
+): Promise<PlayerScore[]> {
+  const game = getCurrentGame(series);
+  const standings = await calculateLeaderboard(matchId, {
+    from: game.startInning,
+    to: game.endInning,
+  });
+
+  return standings.sort((a, b) => {
+    if (b.runs !== a.runs) return b.runs - a.runs;
+    return a.totalTimeMs - b.totalTimeMs;
+  });
+}
+
+/**
+ * Record the winner of the current game
+ * A game nobody scored in has no winner.
+ * Returns true once the series is decided: a player has clinched, or no games are left.
+ */
+export function recordGameResult(series: SeriesState, standings: PlayerScore[]): boolean {
+  const game = getCurrentGame(series);
+  const winner = standings[0];
+
+  if (winner && winner.runs > 0) {
+    game.winnerId = winner.playerId;
+    series.wins[winner.playerId] = (series.wins[winner.playerId] || 0) + 1;
+  }
+
+  const clinched = Object.entries(series.wins).find(([, wins]) => wins >= series.gamesToWin);
+  const isLastGame = series.currentGame + 1 >= series.totalGames;
+
+  if (clinched) {
+    series.winnerId = clinched[0];
+  } else if (isLastGame) {
+    series.winnerId = getSeriesLeader(series);
+  }
+
+  return Boolean(clinched) || isLastGame;
+}
+
+/**
+ * Player with the most game wins; ties go to whoever won a game first
+ */
+function getSeriesLeader(series: SeriesState): string | undefined {
+  let leaderId: string | undefined;
+  let leaderWins = 0;
+
+  for (const game of series.games) {
+    if (!game.winnerId) continue;
+    const wins = series.wins[game.winnerId];
+    if (wins > leaderWins) {
+      leaderId = game.winnerId;
+      leaderWins = wins;
+    }
+  }
+
+  return leaderId;
+}
@@ -1,10 +1,74 @@
 import { PrismaClient } from '@prisma/client';
-import { MatchPhase } from '@jaysgame/shared';
-import type { MatchState, PlayerScore, Question } from '@jaysgame/shared';
-import { redisClient } from '../config/redis';
+import { MatchPhase, PlayerRole } from '@jaysgame/shared';
+import type {
+  AnswerCorrectedPayload,
+  AnswerCorrection,
+  AnswerKey,
+  GameEndPayload,
+  MatchPausedPayload,
+  MatchResumedPayload,
+  MatchSettings,
+  MatchState,
+  Question,
+  QuestionLockedPayload,
+  RevealUndonePayload,
+  TiebreakResultPayload,
+  TiebreakStartPayload,
+  TrueFalseQuestion,
+  WagerOpenPayload,
+} from '@jaysgame/shared';
 import { io } from '../index';
-import { formatQuestion, validateQuestion } from './question.service';
-import { generateRevealPayload, updateLineScore } from './reveal.service';
+import { withMatchLock } from '../utils/match-lock';
+import { recordMatchEvent } from './event.service';
+import { updateMatchState } from './match.service';
+import { getPlayerRuns, getScoreUpdate, syncLeaderboard } from './leaderboard.service';
+import {
+  createAnswerKeyOverride,
+  formatQuestion,
+  getCorrectAnswer,
+  getMatchQuestion,
+  validateQuestion,
+} from './question.service';
+import {
+  getCheckpointKey,
+  loadMatchState,
+  rebuildMatchState,
+  restoreMatchTimers,
+  saveMatchCheckpoint,
+} from './recovery.service';
+import {
+  generateRevealPayload,
+  rescoreQuestion,
+  resetClosestQuestion,
+  updateLineScore,
+} from './reveal.service';
+import {
+  createSeriesState,
+  calculateGameStandings,
+  getCurrentGame,
+  isFinalInningOfGame,
+  recordGameResult,
+} from './series.service';
+import {
+  scheduleMatchJob,
+  cancelMatchJob,
+  cancelMatchJobs,
+  registerJobHandler,
+  type MatchJobType,
+} from './scheduler.service';
+import { clearSpeedBonus, forfeitUnansweredStakes, removeForfeitedStakes } from './answer.service';
+import { calculateBoxScore } from './box-score.service';
+import { announceStreakChanges, calculateStreaks, syncStreakBonuses } from './streak.service';
+import { calculateTeamScores } from './team.service';
+import {
+  TIEBREAK_ROUNDS,
+  createTiebreakState,
+  getTiebreakAnswers,
+  getTiebreakQuestion,
+  getTiedLeaders,
+  recordTiebreakAnswer,
+  recordTiebreakRound,
+} from './tiebreak.service';
 
 const prisma = new PrismaClient();
 
@@ -12,20 +76,67 @@ const prisma = new PrismaClient();
  * Valid state transitions
  */
 const VALID_TRANSITIONS: Record<string, string[]> = {
-  lobby: ['question'],
-  question: ['reveal'],
-  reveal: ['question', 'stretch', 'postgame'],
-  stretch: ['question'],
+  lobby: ['question', 'wager'],
+  question: ['reveal', 'paused'],
+  reveal: ['question', 'wager', 'stretch', 'intermission', 'tiebreak', 'postgame', 'paused'],
+  stretch: ['question', 'wager', 'paused'],
+  wager: ['question', 'paused'],
+  paused: ['question', 'reveal', 'stretch', 'wager'],
+  intermission: ['question', 'wager', 'postgame'],
+  tiebreak: ['postgame'],
   postgame: [],
 };
 
+/**
+ * Grace period after `endsAt` for answers still in flight when the timer expires
+ */
+const ANSWER_GRACE_MS = 500;
+
+/**
+ * How long players have to stake runs on a wager question
+ */
+const WAGER_DURATION_SEC = 15;
+
+/**
+ * Length of the 7th inning stretch
+ */
+const STRETCH_DURATION_SEC = 30;
+
+/**
+ * How long each Home Run Derby result stays up before the next question
+ */
+const TIEBREAK_RESULT_SEC = 5;
+
+/**
+ * Scheduled jobs that drive the match clock
+ */
+const MATCH_TIMER_JOBS: MatchJobType[] = [
+  'question:timeout',
+  'wager:end',
+  'stretch:end',
+  'auto:advance',
+];
+
+/**
+ * Identify what an auto:advance job moves on from, so that stale jobs are ignored
+ */
+export function getAutoAdvanceToken(state: MatchState): string | undefined {
+  if (state.phase === MatchPhase.INTERMISSION) {
+    return `game:${state.series?.currentGame}`;
+  }
+  return state.question?.id;
+}
+
 /**
  * Match State Machine Service
- * Manages match flow through different phases
+ * Manages match flow through different phases.
+ * Every state-changing method runs under the per-match lock, so concurrent
+ * commands from players, the host and the scheduler are applied one at a time.
  */
 export class MatchStateMachine {
   private matchId: string;
   private state: MatchState | null = null;
+  private checkpointKey: string | null = null;
 
   constructor(matchId: string) {
     this.matchId = matchId;
@@ -33,118 +144,156 @@ export class MatchStateMachine {
 
   /**
    * Load current state from Redis
+   * Rebuilds it from Postgres if the Redis copy has expired or been lost
    */
   async loadState(): Promise<MatchState> {
-    const stateJson = await redisClient.get(`match:${this.matchId}:state`);
-    if (!stateJson) {
-      throw new Error('Match state not found');
-    }
-
-    this.state = JSON.parse(stateJson) as MatchState;
+    this.state = await loadMatchState(this.matchId);
+    this.checkpointKey = getCheckpointKey(this.state);
     return this.state;
   }
 
   /**
    * Save state to Redis
+   * Whenever the phase or question changes, also checkpoints to Postgres and
+   * appends a state snapshot to the match event log.
+   * Must be called while holding the match lock
    */
   async saveState(): Promise<void> {
     if (!this.state) {
       throw new Error('No state to save');
     }
 
-    await redisClient.setex(
-      `match:${this.matchId}:state`,
-      86400, // 24 hours
-      JSON.stringify(this.state)
-    );
+    await updateMatchState(this.matchId, this.state);
+
+    const checkpointKey = getCheckpointKey(this.state);
+    if (checkpointKey !== this.checkpointKey) {
+      await saveMatchCheckpoint(this.matchId, this.state);
+      await recordMatchEvent(
+        this.matchId,
+        'state_changed',
+        {
+          phase: this.state.phase,
+          inning: this.state.inning,
+          questionIdx: this.state.questionIdx,
+          questionId: this.state.question?.id,
+        },
+        { state: this.state }
+      );
+      this.checkpointKey = checkpointKey;
+    }
+  }
+
+  /**
+   * Rebuild match state from Postgres (host control)
+   * Replaces whatever is in Redis and re-arms the match timers
+   */
+  async recoverMatch(): Promise<void> {
+    return withMatchLock(this.matchId, async () => {
+      this.state = await rebuildMatchState(this.matchId);
+      // Always checkpoint and log the rebuilt state
+      this.checkpointKey = null;
+
+      await this.saveState();
+      await restoreMatchTimers(this.matchId, this.state);
+
+      io.to(this.matchId).emit('state:update', this.state);
+    });
   }
 
   /**
    * Transition to a new phase
    */
   async transition(newPhase: MatchPhase): Promise<void> {
-    await this.loadState();
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
 
-    const currentPhase = this.state!.phase;
-    const allowedTransitions = VALID_TRANSITIONS[currentPhase];
+      const currentPhase = this.state!.phase;
+      const allowedTransitions = VALID_TRANSITIONS[currentPhase];
 
-    if (!allowedTransitions.includes(newPhase)) {
-      throw new Error(
-        `Invalid state transition: ${currentPhase} -> ${newPhase}. Allowed: ${allowedTransitions.join(', ')}`
-      );
-    }
+      if (!allowedTransitions.includes(newPhase)) {
+        throw new Error(
+          `Invalid state transition: ${currentPhase} -> ${newPhase}. Allowed: ${allowedTransitions.join(', ')}`
+        );
+      }
 
-    this.state!.phase = newPhase;
-    await this.saveState();
+      this.state!.phase = newPhase;
+      await this.saveState();
 
-    // Broadcast state update to all clients in match
-    io.to(this.matchId).emit('state:update', this.state);
+      // Broadcast state update to all clients in match
+      io.to(this.matchId).emit('state:update', this.state);
+    });
   }
 
   /**
    * Start match (lobby -> question)
    */
   async startMatch(): Promise<void> {
-    await this.loadState();
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
 
-    if (this.state!.phase !== MatchPhase.LOBBY) {
-      throw new Error('Match can only be started from lobby phase');
-    }
+      if (this.state!.phase !== MatchPhase.LOBBY) {
+        throw new Error('Match can only be started from lobby phase');
+      }
 
-    // Load match and pack data
-    const match = await prisma.match.findUnique({
-      where: { id: this.matchId },
-      include: { pack: true },
-    });
+      // Load match and pack data
+      const match = await prisma.match.findUnique({
+        where: { id: this.matchId },
+        include: { pack: true },
+      });
 
-    if (!match) {
-      throw new Error('Match not found');
-    }
+      if (!match) {
+        throw new Error('Match not found');
+      }
 
-    // Update match status in database
-    await prisma.match.update({
-      where: { id: this.matchId },
-      data: {
-        status: 'IN_PROGRESS',
-        startedAt: new Date(),
-      },
-    });
+      const innings = match.pack.innings as unknown as Array<{
+        theme: string;
+        questions: Question[];
+      }>;
 
-    // Move to first question
-    this.state!.inning = 0;
-    this.state!.questionIdx = 0;
-    this.state!.phase = MatchPhase.QUESTION;
+      // Starting by hand replaces any scheduled start
+      if (this.state!.scheduledStartAt) {
+        await cancelMatchJob(this.matchId, 'lobby:countdown');
+        this.state!.scheduledStartAt = undefined;
+      }
 
-    // Get first question
-    const innings = match.pack.innings as unknown as Array<{
-      theme: string;
-      questions: Question[];
-    }>;
-    const question = innings[0].questions[0];
-    const settings = match.settings as { timerSec: number };
+      // Best-of series are played as several games over slices of the pack
+      this.state!.series = createSeriesState(match.mode, innings.length);
 
-    // Validate question before showing
-    const validation = validateQuestion(question);
-    if (!validation.valid) {
-      throw new Error(`Invalid question: ${validation.error}`);
-    }
+      // Update match status in database
+      await prisma.match.update({
+        where: { id: this.matchId },
+        data: {
+          status: 'IN_PROGRESS',
+          startedAt: new Date(),
+        },
+      });
 
-    this.state!.question = formatQuestion({
-      matchId: this.matchId,
-      question,
-      inning: 0,
-      questionIdx: 0,
-      timerSec: settings.timerSec,
-    });
-    this.state!.endsAt = Date.now() + settings.timerSec * 1000;
+      // Start the live leaderboard clean
+      await syncLeaderboard(this.matchId);
 
-    await this.saveState();
+      // Move to first question
+      this.state!.inning = 0;
+      this.state!.questionIdx = 0;
 
-    // Broadcast state update and question
-    io.to(this.matchId).emit('state:update', this.state);
-    io.to(this.matchId).emit('question:show', {
-      question: this.state!.question,
-      endsAt: this.state!.endsAt,
+      // Get first question
+      const question = getMatchQuestion(
+        innings,
+        match.answerKey as unknown as AnswerKey | null,
+        0,
+        0
+      )!;
+      const settings = match.settings as unknown as MatchSettings;
+
+      // Validate question before showing
+      const validation = validateQuestion(question);
+      if (!validation.valid) {
+        throw new Error(`Invalid question: ${validation.error}`);
+      }
+
+      // Teams start the match on the board with no runs
+      await this.updateTeamScores(settings);
+
+      await this.presentQuestion(question, settings);
     });
   }
 
@@ -152,184 +301,829 @@ export class MatchStateMachine {
    * Show next question
    */
   async nextQuestion(): Promise<void> {
-    await this.loadState();
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
+      this.assertNotPaused();
 
-    // Load match and pack
-    const match = await prisma.match.findUnique({
-      where: { id: this.matchId },
-      include: { pack: true },
+      // Load match and pack
+      const match = await prisma.match.findUnique({
+        where: { id: this.matchId },
+        include: { pack: true },
+      });
+
+      if (!match) {
+        throw new Error('Match not found');
+      }
+
+      const innings = match.pack.innings as unknown as Array<{
+        theme: string;
+        questions: Question[];
+      }>;
+      const currentInning = this.state!.inning;
+      const currentQuestionIdx = this.state!.questionIdx;
+      const series = this.state!.series;
+      const settings = match.settings as unknown as MatchSettings;
+
+      // Moving on, whether by autopilot or the host, replaces any pending advance
+      await cancelMatchJob(this.matchId, 'auto:advance');
+      this.state!.autoAdvanceAt = undefined;
+
+      // Leaving the break between games: play on into the next game
+      if (series && this.state!.phase === MatchPhase.INTERMISSION) {
+        series.currentGame += 1;
+      }
+
+      // Check if we need to move to next inning
+      if (currentQuestionIdx + 1 >= innings[currentInning].questions.length) {
+        // End of a game within a series
+        if (series && isFinalInningOfGame(series, currentInning)) {
+          await this.endGame();
+          return;
+        }
+
+        // Move to next inning
+        if (currentInning + 1 >= innings.length) {
+          // Game over, unless the top of the leaderboard is tied
+          if (!series && (await this.startTiebreakIfTied())) {
+            return;
+          }
+
+          await this.endMatch();
+          return;
+        }
+
+        // Check for 7th inning stretch (index 6), only in a full nine-inning game
+        const skipStretch = settings.autopilot?.enabled && !settings.autopilot.stretch;
+        if (!series && currentInning === 6 && !this.state!.stretchPlayed && !skipStretch) {
+          await this.triggerStretch();
+          return;
+        }
+
+        // Move to next inning, first question
+        this.state!.inning = currentInning + 1;
+        this.state!.questionIdx = 0;
+      } else {
+        // Move to next question in same inning
+        this.state!.questionIdx = currentQuestionIdx + 1;
+      }
+
+      // Load new question
+      const question = getMatchQuestion(
+        innings,
+        match.answerKey as unknown as AnswerKey | null,
+        this.state!.inning,
+        this.state!.questionIdx
+      )!;
+
+      // Validate question before showing
+      const validation = validateQuestion(question);
+      if (!validation.valid) {
+        throw new Error(`Invalid question: ${validation.error}`);
+      }
+
+      await this.presentQuestion(question, settings);
     });
+  }
 
-    if (!match) {
-      throw new Error('Match not found');
-    }
+  /**
+   * Close wagering and show the wager question
+   * Ignores stale jobs for wagers that are no longer open
+   */
+  async closeWager(questionId: string): Promise<void> {
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
 
-    const innings = match.pack.innings as unknown as Array<{
-      theme: string;
-      questions: Question[];
-    }>;
-    const currentInning = this.state!.inning;
-    const currentQuestionIdx = this.state!.questionIdx;
-
-    // Check if we need to move to next inning
-    if (currentQuestionIdx + 1 >= innings[currentInning].questions.length) {
-      // Move to next inning
-      if (currentInning + 1 >= innings.length) {
-        // Game over
-        await this.endMatch();
+      if (this.state!.phase !== MatchPhase.WAGER || this.state!.wager?.questionId !== questionId) {
         return;
       }
 
-      // Check for 7th inning stretch (index 6)
-      if (currentInning === 6) {
-        await this.triggerStretch();
-        return;
+      const match = await prisma.match.findUnique({
+        where: { id: this.matchId },
+        include: { pack: true },
+      });
+
+      if (!match) {
+        throw new Error('Match not found');
       }
 
-      // Move to next inning, first question
-      this.state!.inning = currentInning + 1;
-      this.state!.questionIdx = 0;
-    } else {
-      // Move to next question in same inning
-      this.state!.questionIdx = currentQuestionIdx + 1;
-    }
+      const innings = match.pack.innings as unknown as Array<{
+        theme: string;
+        questions: Question[];
+      }>;
+      const question = getMatchQuestion(
+        innings,
+        match.answerKey as unknown as AnswerKey | null,
+        this.state!.inning,
+        this.state!.questionIdx
+      )!;
+
+      await cancelMatchJob(this.matchId, 'wager:end');
+      await this.showQuestion(question, match.settings as unknown as MatchSettings);
+    });
+  }
 
-    // Load new question
-    const question = innings[this.state!.inning].questions[this.state!.questionIdx] as Question;
-    const settings = match.settings as { timerSec: number };
+  /**
+   * Stake runs on the open wager question
+   * Players may stake up to their current runs, and change their stake until
+   * wagering closes. Wagering closes early once every player has staked.
+   */
+  async submitWager(
+    playerId: string,
+    questionId: string,
+    amount: number,
+    receivedAt = Date.now()
+  ): Promise<void> {
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
+
+      const wager = this.state!.wager;
+      const endsAt = this.state!.endsAt;
+      if (
+        this.state!.phase !== MatchPhase.WAGER ||
+        wager?.questionId !== questionId ||
+        (endsAt && receivedAt > endsAt + ANSWER_GRACE_MS)
+      ) {
+        throw new Error('Wagering is closed for this question');
+      }
 
-    // Validate question before showing
-    const validation = validateQuestion(question);
-    if (!validation.valid) {
-      throw new Error(`Invalid question: ${validation.error}`);
-    }
+      if (!Number.isInteger(amount) || amount < 0) {
+        throw new Error('Wager must be a whole number of runs');
+      }
 
-    this.state!.phase = MatchPhase.QUESTION;
-    this.state!.question = formatQuestion({
-      matchId: this.matchId,
-      question,
-      inning: this.state!.inning,
-      questionIdx: this.state!.questionIdx,
-      timerSec: settings.timerSec,
+      const available = Math.max(0, await getPlayerRuns(this.matchId, playerId));
+      if (amount > available) {
+        throw new Error(`You can wager at most ${available} run${available === 1 ? '' : 's'}`);
+      }
+
+      wager.stakes[playerId] = amount;
+      await this.saveState();
+      // Stakes do not move the checkpoint key, but must survive losing the Redis state
+      await saveMatchCheckpoint(this.matchId, this.state!);
+      await recordMatchEvent(
+        this.matchId,
+        'wager_submitted',
+        { questionId, amount },
+        { actorId: playerId }
+      );
+
+      io.to(this.matchId).emit('state:update', this.state);
+
+      const playerIds = this.state!.players.filter(
+        (p) => (p.role ?? PlayerRole.PLAYER) === PlayerRole.PLAYER
+      ).map((p) => p.id);
+      if (playerIds.every((id) => id in wager.stakes)) {
+        await this.closeWager(questionId);
+      }
     });
-    this.state!.endsAt = Date.now() + settings.timerSec * 1000;
+  }
 
-    await this.saveState();
+  /**
+   * Close the answer window when the question timer expires
+   * Ignores stale timeouts for questions that are no longer current
+   */
+  async lockQuestion(questionId: string): Promise<void> {
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
 
-    // Broadcast
-    io.to(this.matchId).emit('state:update', this.state);
-    io.to(this.matchId).emit('question:show', {
-      question: this.state!.question,
-      endsAt: this.state!.endsAt,
+      // Home Run Derby rounds are scored as soon as the clock runs out
+      if (this.state!.phase === MatchPhase.TIEBREAK && this.state!.question?.id === questionId) {
+        await this.revealTiebreak();
+        return;
+      }
+
+      if (
+        this.state!.phase !== MatchPhase.QUESTION ||
+        this.state!.question?.id !== questionId ||
+        this.state!.lockedAt
+      ) {
+        return;
+      }
+
+      this.markQuestionLocked();
+      await this.saveState();
+
+      io.to(this.matchId).emit('state:update', this.state);
+
+      // Reveal automatically unless the host has opted to reveal manually
+      // (autopilot always reveals)
+      const match = await prisma.match.findUnique({
+        where: { id: this.matchId },
+      });
+      const settings = match?.settings as unknown as MatchSettings | undefined;
+
+      if (settings?.autoReveal !== false || settings?.autopilot?.enabled) {
+        await this.revealAnswer();
+      }
     });
   }
 
   /**
-   * Reveal current question answer
+   * Check whether an answer for the given question can still be accepted
    */
-  async revealAnswer(): Promise<void> {
-    await this.loadState();
+  isAcceptingAnswers(questionId: string, receivedAt = Date.now()): boolean {
+    if (!this.state) {
+      throw new Error('State not loaded');
+    }
 
-    if (this.state!.phase !== MatchPhase.QUESTION) {
-      throw new Error('Can only reveal answer during question phase');
+    const phase = this.state.phase;
+    if (
+      (phase !== MatchPhase.QUESTION && phase !== MatchPhase.TIEBREAK) ||
+      this.state.question?.id !== questionId
+    ) {
+      return false;
     }
 
-    const currentQuestion = this.state!.question;
-    if (!currentQuestion) {
-      throw new Error('No current question to reveal');
+    if (this.state.lockedAt) {
+      return false;
     }
 
-    // Load match to get question details
-    const match = await prisma.match.findUnique({
-      where: { id: this.matchId },
-      include: { pack: true },
+    return !this.state.endsAt || receivedAt <= this.state.endsAt + ANSWER_GRACE_MS;
+  }
+
+  /**
+   * Reveal current question answer
+   */
+  async revealAnswer(): Promise<void> {
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
+      this.assertNotPaused();
+
+      if (this.state!.phase === MatchPhase.TIEBREAK) {
+        await this.revealTiebreak();
+        return;
+      }
+
+      if (this.state!.phase !== MatchPhase.QUESTION) {
+        throw new Error('Can only reveal answer during question phase');
+      }
+
+      const currentQuestion = this.state!.question;
+      if (!currentQuestion) {
+        throw new Error('No current question to reveal');
+      }
+
+      // Load match to get question details
+      const match = await prisma.match.findUnique({
+        where: { id: this.matchId },
+        include: { pack: true },
+      });
+
+      if (!match) {
+        throw new Error('Match not found');
+      }
+
+      const innings = match.pack.innings as unknown as Array<{
+        theme: string;
+        questions: Question[];
+      }>;
+      const question = getMatchQuestion(
+        innings,
+        match.answerKey as unknown as AnswerKey | null,
+        this.state!.inning,
+        this.state!.questionIdx
+      )!;
+
+      // Host revealed before the timer expired: close the answer window first
+      await cancelMatchJob(this.matchId, 'question:timeout');
+      if (!this.state!.lockedAt) {
+        this.markQuestionLocked();
+      }
+
+      // Players who staked and never answered lose their stake, as with a wrong answer
+      const settings = match.settings as unknown as MatchSettings;
+      const wager = this.state!.wager;
+      if (wager?.questionId === currentQuestion.id) {
+        await forfeitUnansweredStakes(
+          this.matchId,
+          this.state!.inning,
+          this.state!.questionIdx,
+          wager.stakes,
+          settings.timerSec
+        );
+      }
+
+      // Generate reveal payload
+      const revealPayload = await generateRevealPayload(
+        this.matchId,
+        currentQuestion.id,
+        question,
+        innings,
+        settings
+      );
+
+      // Update line score for this inning
+      const inningRuns = await updateLineScore(this.matchId, this.state!.inning);
+      this.state!.lineScore[this.state!.inning] = inningRuns;
+
+      // Speed bonuses and closest-question winners were just scored
+      this.state!.leaderboard = await syncLeaderboard(this.matchId);
+      await this.updateTeamScores(settings);
+
+      // Transition to reveal phase
+      this.state!.phase = MatchPhase.REVEAL;
+      this.state!.endsAt = undefined;
+      this.state!.boxScore = await calculateBoxScore(this.state!, innings);
+      const previousStreaks = this.state!.streaks ?? [];
+      this.state!.streaks = await calculateStreaks(this.state!, innings);
+
+      // Autopilot holds the reveal, plus a break after the last question of an inning
+      if (settings.autopilot?.enabled) {
+        const endOfInning =
+          this.state!.questionIdx + 1 >= innings[this.state!.inning].questions.length;
+        const delaySec =
+          settings.autopilot.revealDwellSec + (endOfInning ? settings.autopilot.inningBreakSec : 0);
+        this.state!.autoAdvanceAt = Date.now() + delaySec * 1000;
+      }
+
+      await this.saveState();
+
+      // Broadcast reveal to all players
+      io.to(this.matchId).emit('state:update', this.state);
+      io.to(this.matchId).emit('question:reveal', revealPayload);
+      io.to(this.matchId).emit('score:update', getScoreUpdate(this.state!));
+      await announceStreakChanges(
+        this.matchId,
+        currentQuestion.id,
+        previousStreaks,
+        this.state!.streaks
+      );
+
+      await this.scheduleAutoAdvance();
     });
+  }
 
-    if (!match) {
-      throw new Error('Match not found');
-    }
+  /**
+   * Undo the last reveal and reopen its question with a fresh timer (host control)
+   * Answers already submitted are kept.
+   */
+  async undoReveal(): Promise<void> {
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
 
-    const innings = match.pack.innings as unknown as Array<{
-      theme: string;
-      questions: Question[];
-    }>;
-    const question = innings[this.state!.inning].questions[this.state!.questionIdx];
+      const currentQuestion = this.state!.question;
+      if (this.state!.phase !== MatchPhase.REVEAL || !currentQuestion) {
+        throw new Error('Can only undo a reveal during reveal phase');
+      }
 
-    // Generate reveal payload
-    const revealPayload = await generateRevealPayload(this.matchId, currentQuestion.id, question);
+      const match = await prisma.match.findUnique({
+        where: { id: this.matchId },
+        include: { pack: true },
+      });
 
-    // Update line score for this inning
-    const inningRuns = await updateLineScore(this.matchId, this.state!.inning);
-    this.state!.lineScore[this.state!.inning] = inningRuns;
+      if (!match) {
+        throw new Error('Match not found');
+      }
 
-    // Transition to reveal phase
-    this.state!.phase = MatchPhase.REVEAL;
-    this.state!.endsAt = undefined;
+      await cancelMatchJob(this.matchId, 'auto:advance');
 
-    await this.saveState();
+      const settings = match.settings as unknown as MatchSettings;
+      const innings = match.pack.innings as unknown as Array<{ questions: Question[] }>;
 
-    // Broadcast reveal to all players
-    io.to(this.matchId).emit('state:update', this.state);
-    io.to(this.matchId).emit('question:reveal', revealPayload);
+      // Closest-question winners are picked at reveal, so pick them again next time
+      if (currentQuestion.type === 'closest') {
+        await resetClosestQuestion(this.matchId, this.state!.inning, this.state!.questionIdx);
+      }
+
+      // Speed bonuses are decided again at the next reveal
+      await clearSpeedBonus(this.matchId, this.state!.inning, this.state!.questionIdx, settings);
+
+      // Players who staked can still answer the reopened question
+      await removeForfeitedStakes(this.matchId, this.state!.inning, this.state!.questionIdx);
+
+      this.state!.phase = MatchPhase.QUESTION;
+      this.state!.shownAt = Date.now();
+      this.state!.endsAt = this.state!.shownAt + settings.timerSec * 1000;
+      this.state!.lockedAt = undefined;
+      this.state!.autoAdvanceAt = undefined;
+
+      // The reopened question no longer counts as played, nor do the streak bonuses it earned
+      // An inning is only on the line score once one of its questions has been revealed
+      const bonusInnings = await syncStreakBonuses(this.matchId, innings, this.state!, settings);
+      this.state!.lineScore[this.state!.inning] =
+        this.state!.questionIdx > 0
+          ? await updateLineScore(this.matchId, this.state!.inning)
+          : null;
+      for (const i of bonusInnings) {
+        if (i !== this.state!.inning && this.state!.lineScore[i] !== null) {
+          this.state!.lineScore[i] = await updateLineScore(this.matchId, i);
+        }
+      }
+      this.state!.leaderboard = await syncLeaderboard(this.matchId);
+      await this.updateTeamScores(settings);
+      this.state!.boxScore = await calculateBoxScore(this.state!, innings);
+      this.state!.streaks = await calculateStreaks(this.state!, innings);
+
+      await this.saveState();
+
+      const payload: RevealUndonePayload = {
+        questionId: currentQuestion.id,
+        endsAt: this.state!.endsAt,
+      };
+      io.to(this.matchId).emit('state:update', this.state);
+      io.to(this.matchId).emit('score:update', getScoreUpdate(this.state!));
+      io.to(this.matchId).emit('reveal:undone', payload);
+
+      await this.scheduleQuestionTimeout();
+    });
+  }
+
+  /**
+   * Correct the answer key for a question that has been shown (host control)
+   * Re-scores its answers, then recomputes the line score and leaderboard.
+   * Games of a series that have already finished keep their recorded winners.
+   */
+  async correctAnswer(correction: AnswerCorrection): Promise<void> {
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
+
+      const { inning, questionIdx } = correction;
+      const shown =
+        inning < this.state!.inning ||
+        (inning === this.state!.inning && questionIdx <= this.state!.questionIdx);
+      if (this.state!.phase === MatchPhase.LOBBY || !shown) {
+        throw new Error('Can only correct questions that have already been shown');
+      }
+
+      const match = await prisma.match.findUnique({
+        where: { id: this.matchId },
+        include: { pack: true },
+      });
+
+      if (!match) {
+        throw new Error('Match not found');
+      }
+
+      const innings = match.pack.innings as unknown as Array<{
+        theme: string;
+        questions: Question[];
+      }>;
+      const original = innings[inning]?.questions[questionIdx];
+      if (!original) {
+        throw new Error('Question not found');
+      }
+
+      // Store the correction alongside the match; the pack itself is left untouched
+      const answerKey = (match.answerKey as unknown as AnswerKey | null) ?? {};
+      answerKey[`${inning}:${questionIdx}`] = createAnswerKeyOverride(original, correction);
+      await prisma.match.update({
+        where: { id: this.matchId },
+        data: { answerKey: answerKey as object },
+      });
+
+      const question = getMatchQuestion(innings, answerKey, inning, questionIdx)!;
+      const settings = match.settings as unknown as MatchSettings;
+
+      // An open question is scored at its reveal, speed bonus and closest winners included
+      const phase =
+        this.state!.phase === MatchPhase.PAUSED ? this.state!.resumePhase : this.state!.phase;
+      const isOpen =
+        phase === MatchPhase.QUESTION &&
+        inning === this.state!.inning &&
+        questionIdx === this.state!.questionIdx;
+      if (!isOpen) {
+        await rescoreQuestion(this.matchId, inning, questionIdx, question, settings);
+      }
+
+      // A corrected answer can make or break the streaks of every later question
+      const bonusInnings = await syncStreakBonuses(this.matchId, innings, this.state!, settings);
+      for (const i of new Set([inning, ...bonusInnings])) {
+        if (this.state!.lineScore[i] !== null) {
+          this.state!.lineScore[i] = await updateLineScore(this.matchId, i);
+        }
+      }
+      this.state!.leaderboard = await syncLeaderboard(this.matchId);
+      this.state!.boxScore = await calculateBoxScore(this.state!, innings);
+      this.state!.streaks = await calculateStreaks(this.state!, innings);
+      await this.updateTeamScores(settings);
+
+      await this.saveState();
+      await recordMatchEvent(this.matchId, 'score_updated', { ...getScoreUpdate(this.state!) });
+
+      const payload: AnswerCorrectedPayload = {
+        questionId: `${this.matchId}-${inning}-${questionIdx}`,
+        inning,
+        questionIdx,
+        correctAnswer: getCorrectAnswer(question).toString(),
+        leaderboard: this.state!.leaderboard,
+        lineScore: this.state!.lineScore,
+      };
+      io.to(this.matchId).emit('state:update', this.state);
+      io.to(this.matchId).emit('score:update', getScoreUpdate(this.state!));
+      io.to(this.matchId).emit('answer:corrected', payload);
+    });
   }
 
   /**
    * Trigger 7th inning stretch
    */
   async triggerStretch(): Promise<void> {
-    await this.loadState();
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
+      this.assertNotPaused();
 
-    this.state!.phase = MatchPhase.STRETCH;
-    this.state!.endsAt = Date.now() + 30000; // 30 seconds
+      await cancelMatchJobs(this.matchId, ['question:timeout', 'auto:advance']);
 
-    await this.saveState();
+      this.state!.phase = MatchPhase.STRETCH;
+      this.state!.autoAdvanceAt = undefined;
+      this.state!.stretchPlayed = true;
+      this.state!.endsAt = Date.now() + STRETCH_DURATION_SEC * 1000;
 
-    // Broadcast stretch
-    io.to(this.matchId).emit('state:update', this.state);
-    io.to(this.matchId).emit('stretch:start', {
-      clipUrl: 'https://www.youtube.com/embed/dQw4w9WgXcQ', // Example - should come from pack
-      durationSec: 30,
+      await this.saveState();
+
+      // Broadcast stretch
+      io.to(this.matchId).emit('state:update', this.state);
+      io.to(this.matchId).emit('stretch:start', {
+        clipUrl: 'https://www.youtube.com/embed/dQw4w9WgXcQ', // Example - should come from pack
+        durationSec: STRETCH_DURATION_SEC,
+      });
+
+      // Return to play once the stretch is over
+      await scheduleMatchJob(this.matchId, 'stretch:end', this.state!.endsAt);
     });
+  }
+
+  /**
+   * End the 7th inning stretch and continue with the next question
+   */
+  async endStretch(): Promise<void> {
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
+
+      if (this.state!.phase !== MatchPhase.STRETCH) {
+        return;
+      }
 
-    // Auto-advance after stretch
-    setTimeout(async () => {
-      this.state!.inning = 7; // Move to 8th inning (index 7)
-      this.state!.questionIdx = 0;
       await this.nextQuestion();
-    }, 30000);
+    });
+  }
+
+  /**
+   * Start a Home Run Derby if the top of the leaderboard is tied
+   * Returns false when the match has a clear winner.
+   */
+  private async startTiebreakIfTied(): Promise<boolean> {
+    // Rank from the stored answers, which closest-question reveals may have rescored
+    this.state!.leaderboard = await syncLeaderboard(this.matchId);
+
+    const tiedPlayerIds = getTiedLeaders(this.state!.leaderboard);
+    if (tiedPlayerIds.length < 2) {
+      await this.saveState();
+      return false;
+    }
+
+    this.state!.tiebreak = createTiebreakState(tiedPlayerIds);
+
+    const payload: TiebreakStartPayload = {
+      playerIds: tiedPlayerIds,
+      rounds: TIEBREAK_ROUNDS,
+    };
+    io.to(this.matchId).emit('tiebreak:start', payload);
+
+    await this.showTiebreakQuestion();
+    return true;
+  }
+
+  /**
+   * Show the next Home Run Derby question
+   */
+  async nextTiebreakQuestion(): Promise<void> {
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
+
+      if (this.state!.phase !== MatchPhase.TIEBREAK || !this.state!.lockedAt) {
+        return;
+      }
+
+      this.state!.tiebreak!.round += 1;
+      await this.showTiebreakQuestion();
+    });
+  }
+
+  /**
+   * Record a Home Run Derby answer
+   * Only the tied players may answer; the round is scored once they all have.
+   */
+  async submitTiebreakAnswer(
+    playerId: string,
+    questionId: string,
+    choice: string,
+    receivedAt = Date.now()
+  ): Promise<void> {
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
+
+      const tiebreak = this.state!.tiebreak;
+      if (!tiebreak || !this.isAcceptingAnswers(questionId, receivedAt)) {
+        throw new Error('Answering is closed for this question');
+      }
+
+      if (!tiebreak.playerIds.includes(playerId)) {
+        throw new Error('Only the tied players can answer in the Home Run Derby');
+      }
+
+      const recorded = await recordTiebreakAnswer(this.matchId, tiebreak.round, playerId, choice);
+      if (!recorded) {
+        throw new Error('Answer already submitted for this question');
+      }
+
+      await recordMatchEvent(
+        this.matchId,
+        'answer_submitted',
+        { questionId, choice, tiebreak: true },
+        { actorId: playerId }
+      );
+
+      // No need to wait for the clock once everyone still in has answered
+      const answers = await getTiebreakAnswers(this.matchId, tiebreak.round);
+      if (tiebreak.playerIds.every((id) => id in answers)) {
+        await this.revealTiebreak();
+      }
+    });
+  }
+
+  /**
+   * Score the current Home Run Derby round
+   * Ends the match once a single player is left
+   */
+  async revealTiebreak(): Promise<void> {
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
+
+      const tiebreak = this.state!.tiebreak;
+      if (this.state!.phase !== MatchPhase.TIEBREAK || !tiebreak) {
+        throw new Error('No tie-breaker in progress');
+      }
+
+      if (this.state!.lockedAt) {
+        return;
+      }
+
+      const match = await prisma.match.findUnique({
+        where: { id: this.matchId },
+        include: { pack: true },
+      });
+
+      if (!match) {
+        throw new Error('Match not found');
+      }
+
+      const question = getTiebreakQuestion(
+        match.pack.tiebreak as unknown as TrueFalseQuestion[] | null,
+        tiebreak.round
+      )!;
+
+      await cancelMatchJob(this.matchId, 'question:timeout');
+      this.markQuestionLocked();
+      this.state!.endsAt = undefined;
+
+      const answers = await getTiebreakAnswers(this.matchId, tiebreak.round);
+      const results = recordTiebreakRound(tiebreak, question, answers);
+
+      await this.saveState();
+
+      const payload: TiebreakResultPayload = {
+        questionId: this.state!.question!.id,
+        correctAnswer: getCorrectAnswer(question),
+        results,
+        tiebreak,
+      };
+      io.to(this.matchId).emit('state:update', this.state);
+      io.to(this.matchId).emit('tiebreak:result', payload);
+
+      if (tiebreak.winnerId) {
+        await this.finishTiebreak();
+        return;
+      }
+
+      await scheduleMatchJob(
+        this.matchId,
+        'auto:advance',
+        Date.now() + TIEBREAK_RESULT_SEC * 1000,
+        this.state!.question!.id
+      );
+    });
+  }
+
+  /**
+   * End the current game of a series
+   * Ends the match once the series is decided, otherwise breaks until the next game
+   */
+  async endGame(): Promise<void> {
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
+
+      const series = this.state!.series;
+      if (!series) {
+        throw new Error('Match is not a series');
+      }
+
+      const standings = await calculateGameStandings(this.matchId, series);
+      const seriesDecided = recordGameResult(series, standings);
+      const game = getCurrentGame(series);
+
+      this.state!.question = undefined;
+      this.state!.endsAt = undefined;
+      if (!seriesDecided) {
+        this.state!.phase = MatchPhase.INTERMISSION;
+
+        // Autopilot starts the next game after an inning break
+        const match = await prisma.match.findUnique({
+          where: { id: this.matchId },
+        });
+        const settings = match?.settings as unknown as MatchSettings | undefined;
+        if (settings?.autopilot?.enabled) {
+          this.state!.autoAdvanceAt = Date.now() + settings.autopilot.inningBreakSec * 1000;
+        }
+      }
+
+      await this.saveState();
+
+      const payload: GameEndPayload = {
+        gameNumber: game.gameNumber,
+        winnerId: game.winnerId,
+        standings,
+        series,
+      };
+      io.to(this.matchId).emit('game:end', payload);
+
+      if (seriesDecided) {
+        await this.endMatch();
+        return;
+      }
+
+      io.to(this.matchId).emit('state:update', this.state);
+      await this.scheduleAutoAdvance();
+    });
   }
 
   /**
    * End match
    */
   async endMatch(): Promise<void> {
-    await this.loadState();
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
 
-    this.state!.phase = MatchPhase.POSTGAME;
-    this.state!.question = undefined;
-    this.state!.endsAt = undefined;
+      await cancelMatchJobs(this.matchId, MATCH_TIMER_JOBS);
 
-    await this.saveState();
+      this.state!.phase = MatchPhase.POSTGAME;
+      this.state!.question = undefined;
+      this.state!.endsAt = undefined;
+      this.state!.autoAdvanceAt = undefined;
 
-    // Update match status in database
-    await prisma.match.update({
-      where: { id: this.matchId },
-      data: {
-        status: 'COMPLETED',
-        endedAt: new Date(),
-      },
+      await this.saveState();
+
+      // Update match status in database
+      await prisma.match.update({
+        where: { id: this.matchId },
+        data: {
+          status: 'COMPLETED',
+          endedAt: new Date(),
+        },
+      });
+
+      // Determine MVP: the series or Home Run Derby winner, or the top of the leaderboard
+      const leaderboard = this.state!.leaderboard;
+      const series = this.state!.series;
+      const mvp =
+        series?.winnerId ??
+        this.state!.tiebreak?.winnerId ??
+        (leaderboard.length > 0 ? leaderboard[0].playerId : '');
+
+      // Broadcast match end
+      io.to(this.matchId).emit('state:update', this.state);
+      io.to(this.matchId).emit('match:end', {
+        finalScores: leaderboard,
+        mvp,
+        shareCardUrl: undefined, // TODO: Generate share card
+        series,
+      });
     });
+  }
 
-    // Determine MVP
-    const leaderboard = this.state!.leaderboard;
-    const mvp = leaderboard.length > 0 ? leaderboard[0] : null;
+  /**
+   * Start a scheduled match when its countdown runs out
+   * With nobody in the lobby the match keeps waiting for the host instead.
+   */
+  async startScheduledMatch(token: string): Promise<void> {
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
+
+      if (
+        this.state!.phase !== MatchPhase.LOBBY ||
+        String(this.state!.scheduledStartAt) !== token
+      ) {
+        return;
+      }
 
-    // Broadcast match end
-    io.to(this.matchId).emit('state:update', this.state);
-    io.to(this.matchId).emit('match:end', {
-      finalScores: leaderboard,
-      mvp: mvp?.playerId || '',
-      shareCardUrl: undefined, // TODO: Generate share card
+      if (this.state!.players.length === 0) {
+        console.info(`Scheduled start of match ${this.matchId} skipped: no players in lobby`);
+        this.state!.scheduledStartAt = undefined;
+        await this.saveState();
+        io.to(this.matchId).emit('state:update', this.state);
+        return;
+      }
+
+      await this.startMatch();
     });
   }
 
@@ -337,14 +1131,42 @@ export class MatchStateMachine {
    * Pause match (host control)
    */
   async pauseMatch(): Promise<void> {
-    await this.loadState();
-
-    // Store pause state in Redis
-    await redisClient.set(`match:${this.matchId}:paused`, 'true', 'EX', 3600);
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
+
+      const phase = this.state!.phase;
+      if (
+        phase !== MatchPhase.QUESTION &&
+        phase !== MatchPhase.WAGER &&
+        phase !== MatchPhase.REVEAL &&
+        phase !== MatchPhase.STRETCH
+      ) {
+        throw new Error('Can only pause during question, wager, reveal or stretch phase');
+      }
 
-    // Broadcast pause event
-    io.to(this.matchId).emit('match:paused', {
-      timestamp: Date.now(),
+      // Hold pending timers until the match resumes
+      await cancelMatchJobs(this.matchId, MATCH_TIMER_JOBS);
+
+      // Freeze the clock: capture what is left of the timer
+      const pausedAt = Date.now();
+      this.state!.resumePhase = phase;
+      this.state!.phase = MatchPhase.PAUSED;
+      this.state!.pausedAt = pausedAt;
+      this.state!.remainingMs = this.state!.endsAt
+        ? Math.max(0, this.state!.endsAt - pausedAt)
+        : undefined;
+      this.state!.endsAt = undefined;
+      this.state!.autoAdvanceAt = undefined;
+
+      await this.saveState();
+
+      // Broadcast pause event
+      const payload: MatchPausedPayload = {
+        pausedAt,
+        remainingMs: this.state!.remainingMs,
+      };
+      io.to(this.matchId).emit('state:update', this.state);
+      io.to(this.matchId).emit('match:paused', payload);
     });
   }
 
@@ -352,72 +1174,353 @@ export class MatchStateMachine {
    * Resume match (host control)
    */
   async resumeMatch(): Promise<void> {
-    await this.loadState();
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
 
-    // Remove pause state
-    await redisClient.del(`match:${this.matchId}:paused`);
+      if (this.state!.phase !== MatchPhase.PAUSED) {
+        throw new Error('Match is not paused');
+      }
 
-    // Recalculate timer if in question phase
-    if (this.state!.phase === MatchPhase.QUESTION && this.state!.endsAt) {
-      const match = await prisma.match.findUnique({
-        where: { id: this.matchId },
-      });
+      // Restore the phase and the time that was left when the match was paused
+      const resumedAt = Date.now();
+      this.state!.phase = this.state!.resumePhase ?? MatchPhase.QUESTION;
+      if (this.state!.remainingMs !== undefined) {
+        this.state!.endsAt = resumedAt + this.state!.remainingMs;
+      }
+      // Time spent paused does not count against answer times
+      if (this.state!.shownAt !== undefined && this.state!.pausedAt !== undefined) {
+        this.state!.shownAt += resumedAt - this.state!.pausedAt;
+      }
+      this.state!.resumePhase = undefined;
+      this.state!.pausedAt = undefined;
+      this.state!.remainingMs = undefined;
+
+      // Autopilot gives a resumed reveal its full dwell time again
+      if (this.state!.phase === MatchPhase.REVEAL) {
+        const match = await prisma.match.findUnique({
+          where: { id: this.matchId },
+        });
+        const settings = match?.settings as unknown as MatchSettings | undefined;
+        if (settings?.autopilot?.enabled) {
+          this.state!.autoAdvanceAt = resumedAt + settings.autopilot.revealDwellSec * 1000;
+        }
+      }
 
-      if (match) {
-        const settings = match.settings as { timerSec: number };
-        this.state!.endsAt = Date.now() + settings.timerSec * 1000;
-        await this.saveState();
+      await this.saveState();
+
+      // Broadcast resume event
+      const payload: MatchResumedPayload = {
+        resumedAt,
+        endsAt: this.state!.endsAt,
+      };
+      io.to(this.matchId).emit('state:update', this.state);
+      io.to(this.matchId).emit('match:resumed', payload);
+
+      if (this.state!.phase === MatchPhase.QUESTION && !this.state!.lockedAt) {
+        await this.scheduleQuestionTimeout();
+      } else if (this.state!.phase === MatchPhase.WAGER && this.state!.endsAt) {
+        await scheduleMatchJob(
+          this.matchId,
+          'wager:end',
+          this.state!.endsAt,
+          this.state!.wager?.questionId
+        );
+      } else if (this.state!.phase === MatchPhase.STRETCH && this.state!.endsAt) {
+        await scheduleMatchJob(this.matchId, 'stretch:end', this.state!.endsAt);
+      } else {
+        await this.scheduleAutoAdvance();
+      }
+    });
+  }
+
+  /**
+   * Skip to next question (host control)
+   */
+  async skipQuestion(): Promise<void> {
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
+      this.assertNotPaused();
+
+      const phase = this.state!.phase;
+      if (
+        phase === MatchPhase.QUESTION ||
+        phase === MatchPhase.WAGER ||
+        phase === MatchPhase.REVEAL ||
+        phase === MatchPhase.INTERMISSION
+      ) {
+        await this.nextQuestion();
+      } else if (phase === MatchPhase.TIEBREAK) {
+        // Score the current derby round, or move on from its result
+        await (this.state!.lockedAt ? this.nextTiebreakQuestion() : this.revealTiebreak());
+      } else {
+        throw new Error(
+          'Can only skip during question, wager, reveal, intermission or tie-break phase'
+        );
       }
+    });
+  }
+
+  /**
+   * Update line score for an inning
+   */
+  async updateLineScore(inning: number, runs: number): Promise<void> {
+    return withMatchLock(this.matchId, async () => {
+      await this.loadState();
+
+      this.state!.lineScore[inning] = runs;
+      await this.saveState();
+    });
+  }
+
+  /**
+   * Show the current Home Run Derby question
+   * Must be called while holding the match lock
+   */
+  private async showTiebreakQuestion(): Promise<void> {
+    const match = await prisma.match.findUnique({
+      where: { id: this.matchId },
+      include: { pack: true },
+    });
+
+    if (!match) {
+      throw new Error('Match not found');
     }
 
-    // Broadcast resume event
-    io.to(this.matchId).emit('match:resumed', {
-      timestamp: Date.now(),
+    const innings = match.pack.innings as unknown as Array<{
+      theme: string;
+      questions: Question[];
+    }>;
+    const tiebreak = this.state!.tiebreak!;
+    const question = getTiebreakQuestion(
+      match.pack.tiebreak as unknown as TrueFalseQuestion[] | null,
+      tiebreak.round
+    );
+
+    if (!question) {
+      // Out of questions: fall back to the leaderboard order (fastest total time)
+      tiebreak.winnerId = this.state!.leaderboard.find((p) =>
+        tiebreak.playerIds.includes(p.playerId)
+      )?.playerId;
+      await this.finishTiebreak();
+      return;
+    }
+
+    const settings = match.settings as unknown as MatchSettings;
+
+    // Derby questions are numbered as an extra inning after the last one
+    this.state!.phase = MatchPhase.TIEBREAK;
+    this.state!.question = formatQuestion({
+      matchId: this.matchId,
+      question,
+      inning: innings.length,
+      questionIdx: tiebreak.round,
+      timerSec: settings.timerSec,
+    });
+    this.state!.shownAt = Date.now();
+    this.state!.endsAt = this.state!.shownAt + settings.timerSec * 1000;
+    this.state!.lockedAt = undefined;
+
+    await this.saveState();
+
+    io.to(this.matchId).emit('state:update', this.state);
+    io.to(this.matchId).emit('question:show', {
+      question: this.state!.question,
       endsAt: this.state!.endsAt,
     });
+
+    await this.scheduleQuestionTimeout();
   }
 
   /**
-   * Skip to next question (host control)
+   * Put the Home Run Derby winner on top of the leaderboard and end the match
+   * Must be called while holding the match lock
    */
-  async skipQuestion(): Promise<void> {
-    await this.loadState();
+  private async finishTiebreak(): Promise<void> {
+    const leaderboard = this.state!.leaderboard;
+    const winnerIdx = leaderboard.findIndex((p) => p.playerId === this.state!.tiebreak!.winnerId);
+    if (winnerIdx > 0) {
+      leaderboard.unshift(...leaderboard.splice(winnerIdx, 1));
+    }
 
-    if (this.state!.phase === MatchPhase.QUESTION || this.state!.phase === MatchPhase.REVEAL) {
-      await this.nextQuestion();
-    } else {
-      throw new Error('Can only skip during question or reveal phase');
+    await this.saveState();
+    await this.endMatch();
+  }
+
+  /**
+   * Arm the server-side timer for the current question
+   */
+  private async scheduleQuestionTimeout(): Promise<void> {
+    const questionId = this.state!.question?.id;
+    const endsAt = this.state!.endsAt;
+    if (!questionId || !endsAt) {
+      return;
     }
+
+    await scheduleMatchJob(this.matchId, 'question:timeout', endsAt, questionId);
   }
 
   /**
-   * Update leaderboard
+   * Arm the autopilot timer for the current reveal or intermission
    */
-  async updateLeaderboard(players: PlayerScore[]): Promise<void> {
-    await this.loadState();
+  private async scheduleAutoAdvance(): Promise<void> {
+    const autoAdvanceAt = this.state!.autoAdvanceAt;
+    if (!autoAdvanceAt) {
+      return;
+    }
+
+    await scheduleMatchJob(
+      this.matchId,
+      'auto:advance',
+      autoAdvanceAt,
+      getAutoAdvanceToken(this.state!)
+    );
+  }
 
-    // Sort by runs (desc), then by totalTimeMs (asc)
-    this.state!.leaderboard = players.sort((a, b) => {
-      if (b.runs !== a.runs) return b.runs - a.runs;
-      return a.totalTimeMs - b.totalTimeMs;
+  /**
+   * Present the current question: wager questions open for stakes first
+   * Must be called while holding the match lock
+   */
+  private async presentQuestion(question: Question, settings: MatchSettings): Promise<void> {
+    if (question.wager) {
+      await this.openWager();
+      return;
+    }
+
+    this.state!.wager = undefined;
+    await this.showQuestion(question, settings);
+  }
+
+  /**
+   * Open wagering on the current question, before its text is shown
+   * Must be called while holding the match lock
+   */
+  private async openWager(): Promise<void> {
+    const payload: WagerOpenPayload = {
+      questionId: `${this.matchId}-${this.state!.inning}-${this.state!.questionIdx}`,
+      inning: this.state!.inning,
+      questionIdx: this.state!.questionIdx,
+      endsAt: Date.now() + WAGER_DURATION_SEC * 1000,
+    };
+
+    this.state!.phase = MatchPhase.WAGER;
+    this.state!.question = undefined;
+    this.state!.wager = { questionId: payload.questionId, stakes: {} };
+    this.state!.shownAt = undefined;
+    this.state!.endsAt = payload.endsAt;
+    this.state!.lockedAt = undefined;
+
+    await this.saveState();
+
+    io.to(this.matchId).emit('state:update', this.state);
+    io.to(this.matchId).emit('wager:open', payload);
+
+    await scheduleMatchJob(this.matchId, 'wager:end', payload.endsAt, payload.questionId);
+  }
+
+  /**
+   * Show the current question and start its timer
+   * Must be called while holding the match lock
+   */
+  private async showQuestion(question: Question, settings: MatchSettings): Promise<void> {
+    this.state!.phase = MatchPhase.QUESTION;
+    this.state!.question = formatQuestion({
+      matchId: this.matchId,
+      question,
+      inning: this.state!.inning,
+      questionIdx: this.state!.questionIdx,
+      timerSec: settings.timerSec,
+      grandSlamEnabled: settings.grandSlam,
     });
+    this.state!.shownAt = Date.now();
+    this.state!.endsAt = this.state!.shownAt + settings.timerSec * 1000;
+    this.state!.lockedAt = undefined;
 
     await this.saveState();
 
-    // Broadcast leaderboard update
-    io.to(this.matchId).emit('score:update', {
-      leaderboard: this.state!.leaderboard,
-      lineScore: this.state!.lineScore,
+    // Broadcast state update and question
+    io.to(this.matchId).emit('state:update', this.state);
+    io.to(this.matchId).emit('question:show', {
+      question: this.state!.question,
+      endsAt: this.state!.endsAt,
     });
+
+    await this.scheduleQuestionTimeout();
   }
 
   /**
-   * Update line score for an inning
+   * Recompute the team leaderboard and line scores, for matches played in teams
    */
-  async updateLineScore(inning: number, runs: number): Promise<void> {
-    await this.loadState();
+  private async updateTeamScores(settings: MatchSettings): Promise<void> {
+    if (!settings.teams?.enabled) {
+      return;
+    }
 
-    this.state!.lineScore[inning] = runs;
-    await this.saveState();
+    const { teamLeaderboard, teamLineScore } = await calculateTeamScores(
+      this.state!,
+      settings.teams.scoring
+    );
+    this.state!.teamLeaderboard = teamLeaderboard;
+    this.state!.teamLineScore = teamLineScore;
   }
+
+  /**
+   * Mark the current question closed and tell clients to stop accepting input
+   */
+  private markQuestionLocked(): void {
+    const payload: QuestionLockedPayload = {
+      questionId: this.state!.question!.id,
+      lockedAt: Date.now(),
+    };
+    this.state!.lockedAt = payload.lockedAt;
+
+    io.to(this.matchId).emit('question:locked', payload);
+  }
+
+  /**
+   * Reject host transitions while the match is paused
+   */
+  private assertNotPaused(): void {
+    if (this.state!.phase === MatchPhase.PAUSED) {
+      throw new Error('Match is paused. Resume it first.');
+    }
+  }
+}
+
+/**
+ * Register scheduler handlers for match timers
+ * Each handler checks the job token so that stale jobs are ignored
+ */
+export function registerMatchJobHandlers(): void {
+  registerJobHandler('question:timeout', async (job) => {
+    await new MatchStateMachine(job.matchId).lockQuestion(job.token!);
+  });
+
+  registerJobHandler('wager:end', async (job) => {
+    await new MatchStateMachine(job.matchId).closeWager(job.token!);
+  });
+
+  registerJobHandler('stretch:end', async (job) => {
+    await new MatchStateMachine(job.matchId).endStretch();
+  });
+
+  registerJobHandler('auto:advance', (job) =>
+    withMatchLock(job.matchId, async () => {
+      const stateMachine = new MatchStateMachine(job.matchId);
+      const state = await stateMachine.loadState();
+
+      if (getAutoAdvanceToken(state) !== job.token) {
+        return;
+      }
+
+      if (state.phase === MatchPhase.REVEAL || state.phase === MatchPhase.INTERMISSION) {
+        await stateMachine.nextQuestion();
+      } else if (state.phase === MatchPhase.TIEBREAK) {
+        await stateMachine.nextTiebreakQuestion();
+      }
+    })
+  );
+
+  registerJobHandler('lobby:countdown', async (job) => {
+    await new MatchStateMachine(job.matchId).startScheduledMatch(job.token!);
+  });
 }
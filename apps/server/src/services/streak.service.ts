@@ -0,0 +1,218 @@
+import { PrismaClient } from '@prisma/client';
+import type {
+  MatchSettings,
+  MatchState,
+  PlayerStreak,
+  StreakChange,
+  StreakChangePayload,
+} from '@jaysgame/shared';
+import { redisClient } from '../config/redis';
+import { io } from '../index';
+import { getQuestionsPlayed } from './box-score.service';
+import type { MatchPosition } from './box-score.service';
+import { recordMatchEvent } from './event.service';
+import { getScoringPolicy } from './scoring.service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Hit streaks
+ *
+ * A player's hit streak is their run of correct answers to consecutive played
+ * questions; a wrong answer or no answer snaps it. Streaks are derived from the
+ * stored answers, so reveals, undos and corrections simply recompute them. With
+ * the streak bonus on, an answer that takes a streak to a multiple of the bonus
+ * length earns extra runs.
+ */
+
+// Two correct answers in a row make a streak
+const MIN_STREAK = 2;
+
+interface StreakAnswer {
+  id: string;
+  playerId: string;
+  inningIdx: number;
+  questionIdx: number;
+  isCorrect: boolean;
+}
+
+interface StreakPlayer {
+  id: string;
+  nickname: string;
+}
+
+/**
+ * Follow one player's answers through the played questions, in order
+ * @returns Their current and longest streaks, and the streak after each played answer, keyed by answer ID
+ */
+function followStreak(
+  answers: StreakAnswer[],
+  questionsPlayed: number[]
+): { current: number; longest: number; answerStreaks: Map<string, number> } {
+  const byQuestion = new Map(answers.map((a) => [`${a.inningIdx}:${a.questionIdx}`, a]));
+  const answerStreaks = new Map<string, number>();
+  let current = 0;
+  let longest = 0;
+
+  questionsPlayed.forEach((count, inningIdx) => {
+    for (let questionIdx = 0; questionIdx < count; questionIdx++) {
+      const answer = byQuestion.get(`${inningIdx}:${questionIdx}`);
+      current = answer?.isCorrect ? current + 1 : 0;
+      longest = Math.max(longest, current);
+      if (answer) {
+        answerStreaks.set(answer.id, current);
+      }
+    }
+  });
+
+  return { current, longest, answerStreaks };
+}
+
+/**
+ * Group answers by the player who gave them
+ */
+function groupByPlayer<T extends StreakAnswer>(answers: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const answer of answers) {
+    groups.set(answer.playerId, [...(groups.get(answer.playerId) ?? []), answer]);
+  }
+  return groups;
+}
+
+/**
+ * Build players' streaks from their answers, in the order the players are given
+ */
+export function buildStreaks(
+  players: StreakPlayer[],
+  answers: StreakAnswer[],
+  questionsPlayed: number[]
+): PlayerStreak[] {
+  const byPlayer = groupByPlayer(answers);
+
+  return players.map((player) => {
+    const { current, longest } = followStreak(byPlayer.get(player.id) ?? [], questionsPlayed);
+    return { playerId: player.id, nickname: player.nickname, current, longest };
+  });
+}
+
+/**
+ * Calculate the streak of every player in a match, in leaderboard order
+ */
+export async function calculateStreaks(
+  state: MatchState,
+  innings: Array<{ questions: unknown[] }>
+): Promise<PlayerStreak[]> {
+  const answers = await prisma.matchAnswer.findMany({
+    where: { matchId: state.matchId },
+    select: { id: true, playerId: true, inningIdx: true, questionIdx: true, isCorrect: true },
+  });
+
+  const players = state.leaderboard.map((score) => ({
+    id: score.playerId,
+    nickname: score.nickname,
+  }));
+
+  return buildStreaks(players, answers, getQuestionsPlayed(innings, state));
+}
+
+/**
+ * Award the streak bonus to the answers that reached it, up to a match's position
+ * Bonuses on answers that no longer reach it, or whose question is no longer
+ * played, are taken off, so it can safely run again after an undo or a correction.
+ * @returns Innings whose runs changed
+ */
+export async function syncStreakBonuses(
+  matchId: string,
+  innings: Array<{ questions: unknown[] }>,
+  position: MatchPosition,
+  settings: MatchSettings
+): Promise<number[]> {
+  const bonus = getScoringPolicy(settings).getStreakBonus();
+
+  const answers = await prisma.matchAnswer.findMany({
+    where: { matchId },
+    select: {
+      id: true,
+      playerId: true,
+      inningIdx: true,
+      questionIdx: true,
+      isCorrect: true,
+      runsAwarded: true,
+      streakBonus: true,
+    },
+  });
+
+  const questionsPlayed = getQuestionsPlayed(innings, position);
+  const answerStreaks = new Map<string, number>();
+  for (const playerAnswers of groupByPlayer(answers).values()) {
+    for (const [answerId, streak] of followStreak(playerAnswers, questionsPlayed).answerStreaks) {
+      answerStreaks.set(answerId, streak);
+    }
+  }
+
+  const changedQuestions = new Set<string>();
+  const changedInnings = new Set<number>();
+  for (const answer of answers) {
+    const streak = answerStreaks.get(answer.id) ?? 0;
+    const streakBonus = bonus.length > 0 && streak > 0 && streak % bonus.length === 0;
+    if (streakBonus === answer.streakBonus) {
+      continue;
+    }
+
+    const baseRuns = answer.runsAwarded - (answer.streakBonus ? bonus.runs : 0);
+    await prisma.matchAnswer.update({
+      where: { id: answer.id },
+      data: { streakBonus, runsAwarded: baseRuns + (streakBonus ? bonus.runs : 0) },
+    });
+    changedQuestions.add(`match:${matchId}:answers:${answer.inningIdx}:${answer.questionIdx}`);
+    changedInnings.add(answer.inningIdx);
+  }
+
+  // Drop cached results so reveals read the awarded bonuses
+  if (changedQuestions.size > 0) {
+    await redisClient.del(...changedQuestions);
+  }
+
+  return [...changedInnings];
+}
+
+/**
+ * Broadcast the streaks that started or were snapped at a reveal
+ */
+export async function announceStreakChanges(
+  matchId: string,
+  questionId: string,
+  before: PlayerStreak[],
+  after: PlayerStreak[]
+): Promise<void> {
+  const started: StreakChange[] = [];
+  const snapped: StreakChange[] = [];
+
+  for (const streak of after) {
+    const previous = before.find((s) => s.playerId === streak.playerId)?.current ?? 0;
+    if (streak.current >= MIN_STREAK && previous < MIN_STREAK) {
+      started.push({
+        playerId: streak.playerId,
+        nickname: streak.nickname,
+        streak: streak.current,
+      });
+    } else if (previous >= MIN_STREAK && streak.current < previous) {
+      snapped.push({ playerId: streak.playerId, nickname: streak.nickname, streak: previous });
+    }
+  }
+
+  if (started.length === 0 && snapped.length === 0) {
+    return;
+  }
+
+  await recordMatchEvent(matchId, 'streak_changed', { questionId, started, snapped });
+
+  if (started.length > 0) {
+    const payload: StreakChangePayload = { questionId, players: started };
+    io.to(matchId).emit('streak:start', payload);
+  }
+  if (snapped.length > 0) {
+    const payload: StreakChangePayload = { questionId, players: snapped };
+    io.to(matchId).emit('streak:snapped', payload);
+  }
+}
@@ -0,0 +1,194 @@
+import { PrismaClient } from '@prisma/client';
+import type { MatchTeam as PrismaMatchTeam } from '@prisma/client';
+import { PlayerRole } from '@jaysgame/shared';
+import type { MatchState, Team, TeamLineScore, TeamScore, TeamScoring } from '@jaysgame/shared';
+
+const prisma = new PrismaClient();
+
+/**
+ * Team play
+ *
+ * Players on a team still score on their own; the team's runs for a question
+ * are derived from its members' scored answers according to the match's team
+ * scoring: the best answer, the answer most members gave, or everyone's runs
+ * added up. Team scores are recomputed whenever the line score changes.
+ */
+
+export const MAX_TEAM_NAME_LENGTH = 30;
+
+interface TeamAnswer {
+  choice: string;
+  runs: number;
+}
+
+interface TeamQuestion {
+  teamId: string;
+  inning: number;
+  answers: TeamAnswer[];
+}
+
+/**
+ * Convert a team row to the shape kept in match state
+ */
+export function toTeam(team: PrismaMatchTeam): Team {
+  return {
+    id: team.id,
+    name: team.name,
+  };
+}
+
+/**
+ * Tidy a list of team names: trimmed, without blanks or case-insensitive duplicates
+ */
+export function normalizeTeamNames(names: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const name of names.map((n) => n.trim().slice(0, MAX_TEAM_NAME_LENGTH))) {
+    const key = name.toLowerCase();
+    if (name && !seen.has(key)) {
+      seen.add(key);
+      result.push(name);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find a team by name, ignoring case
+ */
+export function findTeamByName(teams: Team[], name: string): Team | undefined {
+  const key = name.trim().toLowerCase();
+  return teams.find((team) => team.name.toLowerCase() === key);
+}
+
+/**
+ * Pick the team with the fewest members, for players who join without choosing
+ * Ties go to the team created first.
+ */
+export function getSmallestTeam(state: MatchState): Team | undefined {
+  const teams = state.teams ?? [];
+
+  let smallest: Team | undefined;
+  let smallestSize = Infinity;
+  for (const team of teams) {
+    const size = state.players.filter((p) => p.teamId === team.id).length;
+    if (size < smallestSize) {
+      smallest = team;
+      smallestSize = size;
+    }
+  }
+
+  return smallest;
+}
+
+/**
+ * Create a team in a match
+ */
+export async function createTeam(matchId: string, name: string): Promise<Team> {
+  const team = await prisma.matchTeam.create({
+    data: { matchId, name },
+  });
+
+  return toTeam(team);
+}
+
+/**
+ * Runs a team earns for one question from its members' answers
+ */
+function aggregateTeamRuns(answers: TeamAnswer[], scoring: TeamScoring): number {
+  switch (scoring) {
+    case 'best_answer':
+      return Math.max(...answers.map((a) => a.runs));
+    case 'majority': {
+      // The team answers with the choice most members gave; the first to reach the top count wins ties
+      const votes = new Map<string, TeamAnswer[]>();
+      let majority: TeamAnswer[] = [];
+      for (const answer of answers) {
+        const key = answer.choice.trim().toLowerCase();
+        const voters = [...(votes.get(key) ?? []), answer];
+        votes.set(key, voters);
+        if (voters.length > majority.length) {
+          majority = voters;
+        }
+      }
+      return Math.max(...majority.map((a) => a.runs));
+    }
+    default:
+      return answers.reduce((sum, a) => sum + a.runs, 0);
+  }
+}
+
+/**
+ * Rank teams by runs, then by name
+ */
+function sortTeamLeaderboard(teams: TeamScore[]): TeamScore[] {
+  return teams.sort((a, b) => b.runs - a.runs || a.name.localeCompare(b.name));
+}
+
+/**
+ * Calculate the team leaderboard and team line scores from the stored answers
+ * Innings follow the match line score: null until play has reached their first reveal.
+ */
+export async function calculateTeamScores(
+  state: MatchState,
+  scoring: TeamScoring
+): Promise<{ teamLeaderboard: TeamScore[]; teamLineScore: TeamLineScore }> {
+  const teams = state.teams ?? [];
+
+  const answers = await prisma.matchAnswer.findMany({
+    where: {
+      matchId: state.matchId,
+      player: { teamId: { in: teams.map((team) => team.id) } },
+    },
+    select: {
+      inningIdx: true,
+      questionIdx: true,
+      choice: true,
+      runsAwarded: true,
+      player: { select: { teamId: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  // Group each team's answers by question
+  const questions = new Map<string, TeamQuestion>();
+  for (const answer of answers) {
+    const teamId = answer.player.teamId!;
+    const key = `${teamId}:${answer.inningIdx}:${answer.questionIdx}`;
+    const question: TeamQuestion = questions.get(key) ?? {
+      teamId,
+      inning: answer.inningIdx,
+      answers: [],
+    };
+    question.answers.push({ choice: answer.choice, runs: answer.runsAwarded });
+    questions.set(key, question);
+  }
+
+  const inningRuns = new Map<string, number[]>(
+    teams.map((team) => [team.id, state.lineScore.map(() => 0)])
+  );
+  for (const question of questions.values()) {
+    const runs = inningRuns.get(question.teamId)!;
+    runs[question.inning] =
+      (runs[question.inning] ?? 0) + aggregateTeamRuns(question.answers, scoring);
+  }
+
+  const teamLineScore: TeamLineScore = {};
+  const teamLeaderboard: TeamScore[] = teams.map((team) => {
+    const runs = inningRuns.get(team.id)!;
+    teamLineScore[team.id] = state.lineScore.map((inning, i) => (inning === null ? null : runs[i]));
+
+    return {
+      teamId: team.id,
+      name: team.name,
+      runs: runs.reduce((sum, r) => sum + r, 0),
+      players: state.players.filter(
+        (p) => p.teamId === team.id && (p.role ?? PlayerRole.PLAYER) === PlayerRole.PLAYER
+      ).length,
+    };
+  });
+
+  return { teamLeaderboard: sortTeamLeaderboard(teamLeaderboard), teamLineScore };
+}
@@ -0,0 +1,156 @@
+import type {
+  PlayerScore,
+  Question,
+  TiebreakRoundResult,
+  TiebreakState,
+  TrueFalseQuestion,
+} from '@jaysgame/shared';
+import { redisClient } from '../config/redis';
+import { isAnswerCorrect } from './question.service';
+
+/**
+ * Home Run Derby tie-breaker
+ *
+ * When the top of the leaderboard is tied after the last inning, the tied
+ * players answer quick true/false questions. Whoever has the most correct after
+ * the opening rounds wins; if they are still level, it goes to sudden death.
+ */
+
+/**
+ * Questions asked before the derby goes to sudden death
+ */
+export const TIEBREAK_ROUNDS = 3;
+
+/**
+ * Used when the pack has no tie-break questions of its own
+ */
+const FALLBACK_TIEBREAK_QUESTIONS: TrueFalseQuestion[] = [
+  { type: 'tf', text: 'A regulation baseball game has nine innings.', correctAnswer: true },
+  { type: 'tf', text: 'There are 100 feet between each base.', correctAnswer: false },
+  { type: 'tf', text: 'A perfect game means no batter reaches base.', correctAnswer: true },
+  { type: 'tf', text: 'A grand slam is a home run with two runners on.', correctAnswer: false },
+  {
+    type: 'tf',
+    text: 'The pitching rubber is 60 feet, 6 inches from home plate.',
+    correctAnswer: true,
+  },
+  { type: 'tf', text: 'Three balls make a walk.', correctAnswer: false },
+  {
+    type: 'tf',
+    text: 'A batter who is hit by a pitch is awarded first base.',
+    correctAnswer: true,
+  },
+  { type: 'tf', text: 'The World Series is a best-of-five series.', correctAnswer: false },
+  { type: 'tf', text: 'A foul ball can be caught for an out.', correctAnswer: true },
+  { type: 'tf', text: 'Each team fields ten players on defense.', correctAnswer: false },
+];
+
+/**
+ * Get the players sharing the top of the leaderboard
+ * Expects the leaderboard sorted by runs; returns more than one ID when there is a tie.
+ */
+export function getTiedLeaders(leaderboard: PlayerScore[]): string[] {
+  if (leaderboard.length === 0) {
+    return [];
+  }
+
+  const topRuns = leaderboard[0].runs;
+  return leaderboard.filter((p) => p.runs === topRuns).map((p) => p.playerId);
+}
+
+/**
+ * Create the initial tie-break state for a set of tied players
+ */
+export function createTiebreakState(playerIds: string[]): TiebreakState {
+  return {
+    playerIds,
+    round: 0,
+    correct: Object.fromEntries(playerIds.map((id) => [id, 0])),
+    suddenDeath: false,
+  };
+}
+
+/**
+ * Get the question for a tie-break round
+ * Returns undefined once the question pool is exhausted.
+ */
+export function getTiebreakQuestion(
+  packQuestions: TrueFalseQuestion[] | null | undefined,
+  round: number
+): Question | undefined {
+  const questions =
+    packQuestions && packQuestions.length > 0 ? packQuestions : FALLBACK_TIEBREAK_QUESTIONS;
+  return questions[round];
+}
+
+/**
+ * Record a tie-break answer in Redis
+ * Only the first answer of each player counts; returns false for a repeat.
+ */
+export async function recordTiebreakAnswer(
+  matchId: string,
+  round: number,
+  playerId: string,
+  choice: string
+): Promise<boolean> {
+  const key = `match:${matchId}:tiebreak:${round}`;
+
+  const added = await redisClient.hsetnx(key, playerId, choice);
+  await redisClient.expire(key, 86400); // 24 hours
+
+  return added === 1;
+}
+
+/**
+ * Get tie-break answers for a round, keyed by player ID
+ */
+export async function getTiebreakAnswers(
+  matchId: string,
+  round: number
+): Promise<Record<string, string>> {
+  return redisClient.hgetall(`match:${matchId}:tiebreak:${round}`);
+}
+
+/**
+ * Score a tie-break round and decide who stays in the derby
+ * Sets `winnerId` once a single player is left.
+ */
+export function recordTiebreakRound(
+  tiebreak: TiebreakState,
+  question: Question,
+  answers: Record<string, string>
+): TiebreakRoundResult[] {
+  const results = tiebreak.playerIds.map((playerId) => {
+    const choice = answers[playerId];
+    return {
+      playerId,
+      choice,
+      isCorrect: choice !== undefined && isAnswerCorrect(question, choice),
+    };
+  });
+
+  for (const result of results) {
+    if (result.isCorrect) {
+      tiebreak.correct[result.playerId] = (tiebreak.correct[result.playerId] ?? 0) + 1;
+    }
+  }
+
+  if (tiebreak.suddenDeath) {
+    // A round that splits the field knocks out everyone who missed
+    const survivors = results.filter((r) => r.isCorrect).map((r) => r.playerId);
+    if (survivors.length > 0) {
+      tiebreak.playerIds = survivors;
+    }
+  } else if (tiebreak.round + 1 >= TIEBREAK_ROUNDS) {
+    // Only the players with the most correct go on to sudden death
+    const best = Math.max(...tiebreak.playerIds.map((id) => tiebreak.correct[id] ?? 0));
+    tiebreak.playerIds = tiebreak.playerIds.filter((id) => (tiebreak.correct[id] ?? 0) === best);
+    tiebreak.suddenDeath = true;
+  }
+
+  if (tiebreak.playerIds.length === 1) {
+    tiebreak.winnerId = tiebreak.playerIds[0];
+  }
+
+  return results;
+}
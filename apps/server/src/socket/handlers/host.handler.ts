@@ -1,12 +1,24 @@
 import { Socket } from 'socket.io';
 import { RoomManager } from '../managers/RoomManager';
+import { recordMatchEvent } from '../../services/event.service';
+import { createRematch, getMatchState } from '../../services/match.service';
 import { MatchStateMachine } from '../../services/state-machine.service';
-import type { HostActionPayload } from '@jaysgame/shared';
+import type { HostActionPayload, HostRematchPayload, MatchRematchPayload } from '@jaysgame/shared';
 
 /**
  * Register host-related event handlers
  */
 export function registerHostHandlers(socket: Socket, roomManager: RoomManager): void {
+  /**
+   * Put the host's socket in the match room it controls
+   * The room's broadcasts reach the host, and the host counts as present for the idle sweep.
+   */
+  async function joinHostRoom(matchId: string): Promise<void> {
+    if (roomManager.getCurrentMatch(socket) !== matchId) {
+      await roomManager.joinMatch(socket, matchId);
+    }
+  }
+
   /**
    * host:start - Start match
    */
@@ -15,12 +27,19 @@ export function registerHostHandlers(socket: Socket, roomManager: RoomManager):
       const { matchId } = payload;
 
       console.info(`Host starting match: ${matchId} (socket: ${socket.id})`);
+      await joinHostRoom(matchId);
 
       // Create state machine instance
       const stateMachine = new MatchStateMachine(matchId);
 
       // Start the match
       await stateMachine.startMatch();
+      await recordMatchEvent(
+        matchId,
+        'host_action',
+        { action: 'start' },
+        { actorId: socket.data.user?.userId }
+      );
 
       // Acknowledge to host
       socket.emit('host:start:success', {
@@ -40,9 +59,10 @@ export function registerHostHandlers(socket: Socket, roomManager: RoomManager):
    */
   socket.on('host:action', async (payload: HostActionPayload) => {
     try {
-      const { matchId, action } = payload;
+      const { matchId, action, correction } = payload;
 
       console.info(`Host action: ${action} for match ${matchId} (socket: ${socket.id})`);
+      await joinHostRoom(matchId);
 
       const stateMachine = new MatchStateMachine(matchId);
 
@@ -71,10 +91,32 @@ export function registerHostHandlers(socket: Socket, roomManager: RoomManager):
           await stateMachine.startMatch();
           break;
 
+        case 'recover':
+          await stateMachine.recoverMatch();
+          break;
+
+        case 'correct':
+          if (!correction) {
+            throw new Error('Correction details are required');
+          }
+          await stateMachine.correctAnswer(correction);
+          break;
+
+        case 'undo':
+          await stateMachine.undoReveal();
+          break;
+
         default:
           throw new Error(`Unknown host action: ${action}`);
       }
 
+      await recordMatchEvent(
+        matchId,
+        'host_action',
+        { action, correction },
+        { actorId: socket.data.user?.userId }
+      );
+
       // Acknowledge to host
       socket.emit('host:action:success', {
         matchId,
@@ -88,4 +130,59 @@ export function registerHostHandlers(socket: Socket, roomManager: RoomManager):
       });
     }
   });
+
+  /**
+   * host:rematch - Start a new match with the same room and players
+   */
+  socket.on('host:rematch', async (payload: HostRematchPayload) => {
+    try {
+      const { matchId, packId } = payload;
+      const hostId = socket.data.user?.userId;
+
+      if (!hostId) {
+        throw new Error('Authentication required');
+      }
+
+      console.info(`Host starting rematch of match ${matchId} (socket: ${socket.id})`);
+
+      const rematch = await createRematch(matchId, hostId, packId);
+
+      // Bring every connected player, and the host, into the new room
+      roomManager.moveMatch(matchId, rematch.matchId);
+      await roomManager.joinMatch(socket, rematch.matchId);
+
+      await recordMatchEvent(
+        matchId,
+        'host_action',
+        { action: 'rematch', rematchId: rematch.matchId },
+        { actorId: hostId }
+      );
+
+      const rematchPayload: MatchRematchPayload = {
+        previousMatchId: matchId,
+        matchId: rematch.matchId,
+        joinCode: rematch.joinCode,
+        playerIds: rematch.playerIds,
+      };
+      roomManager.broadcastToMatch(rematch.matchId, 'match:rematch', rematchPayload);
+      roomManager.broadcastToMatch(
+        rematch.matchId,
+        'state:update',
+        await getMatchState(rematch.matchId)
+      );
+
+      // Acknowledge to host
+      socket.emit('host:rematch:success', {
+        matchId: rematch.matchId,
+        joinCode: rematch.joinCode,
+        joinUrl: rematch.joinUrl,
+        qrCodeUrl: rematch.qrCodeUrl,
+      });
+    } catch (error) {
+      console.error('Error starting rematch:', error);
+      socket.emit('host:rematch:error', {
+        error: error instanceof Error ? error.message : 'Failed to start rematch',
+      });
+    }
+  });
 }
@@ -3,6 +3,7 @@ import { RoomManager } from '../managers/RoomManager';
 import { handleConnection, handleDisconnect, handleError } from './connection.handler';
 import { registerPlayerHandlers } from './player.handler';
 import { registerHostHandlers } from './host.handler';
+import { registerLatencyHandlers } from './latency.handler';
 
 /**
  * Register all socket event handlers for a connected client
@@ -17,8 +18,11 @@ export function registerSocketHandlers(socket: Socket, roomManager: RoomManager)
   // Register host event handlers
   registerHostHandlers(socket, roomManager);
 
-  // Handle disconnection
-  socket.on('disconnect', () => {
+  // Start measuring the client's latency
+  registerLatencyHandlers(socket);
+
+  // Handle disconnection, while the socket is still in its match room
+  socket.on('disconnecting', () => {
     handleDisconnect(socket, roomManager);
   });
 
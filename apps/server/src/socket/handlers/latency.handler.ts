@@ -0,0 +1,67 @@
+import { Socket } from 'socket.io';
+import type { LatencyPingPayload, LatencyPongPayload } from '@jaysgame/shared';
+
+/**
+ * Per-socket latency estimate
+ *
+ * The server pings each client on connect and then periodically, timing the
+ * round trip itself so clients cannot claim a latency they do not have. Half of
+ * the round trip is taken as the one-way delay and smoothed into
+ * `socket.data.latencyMs`, which is subtracted from answer times.
+ */
+
+const PING_INTERVAL_MS = 15000;
+
+// Pings not answered in time are dropped rather than counted
+const PING_TIMEOUT_MS = 5000;
+
+// Caps what a slow connection can take off its answer times
+const MAX_LATENCY_MS = 500;
+
+// Weight of each new sample in the moving average
+const SMOOTHING = 0.3;
+
+/**
+ * Register latency probe handlers and start pinging the client
+ */
+export function registerLatencyHandlers(socket: Socket): void {
+  const pending = new Map<number, number>();
+  let nextPingId = 1;
+
+  const ping = () => {
+    const now = Date.now();
+    for (const [pingId, sentAt] of pending) {
+      if (now - sentAt > PING_TIMEOUT_MS) {
+        pending.delete(pingId);
+      }
+    }
+
+    const payload: LatencyPingPayload = { pingId: nextPingId++ };
+    pending.set(payload.pingId, now);
+    socket.emit('latency:ping', payload);
+  };
+
+  /**
+   * latency:pong - Client echoes a ping back
+   */
+  socket.on('latency:pong', (payload: LatencyPongPayload) => {
+    const sentAt = pending.get(payload?.pingId);
+    if (sentAt === undefined) {
+      return;
+    }
+    pending.delete(payload.pingId);
+
+    const sample = Math.min(MAX_LATENCY_MS, (Date.now() - sentAt) / 2);
+    const current = socket.data.latencyMs;
+    socket.data.latencyMs = Math.round(
+      current === undefined ? sample : current + SMOOTHING * (sample - current)
+    );
+  });
+
+  ping();
+  const timer = setInterval(ping, PING_INTERVAL_MS);
+
+  socket.on('disconnect', () => {
+    clearInterval(timer);
+  });
+}
@@ -1,11 +1,24 @@
 import { Socket } from 'socket.io';
 import { RoomManager } from '../managers/RoomManager';
-import { joinMatch, leaveMatch, getPlayerById } from '../../services/player.service';
-import { submitAnswer } from '../../services/answer.service';
+import {
+  joinMatch,
+  leaveMatch,
+  getPlayerById,
+  JoinMatchError,
+} from '../../services/player.service';
+import { measureAnswerMs, submitAnswer } from '../../services/answer.service';
+import { scheduleScoreBroadcast } from '../../services/leaderboard.service';
+import { getMatchQuestion } from '../../services/question.service';
+import { recordMatchEvent } from '../../services/event.service';
 import { MatchStateMachine } from '../../services/state-machine.service';
+import { withMatchLock } from '../../utils/match-lock';
+import { MatchPhase, PlayerRole } from '@jaysgame/shared';
 import type {
+  PlayerJoinErrorPayload,
   PlayerJoinPayload,
   AnswerSubmitPayload,
+  WagerSubmitPayload,
+  AnswerKey,
   MatchSettings,
   Question,
 } from '@jaysgame/shared';
@@ -22,15 +35,17 @@ export function registerPlayerHandlers(socket: Socket, roomManager: RoomManager)
    */
   socket.on('player:join', async (payload: PlayerJoinPayload) => {
     try {
-      const { matchId, nickname, avatar, cityOptIn, city } = payload;
+      const { matchId, nickname, avatar, cityOptIn, city, team } = payload;
 
       console.info(`Player joining: ${nickname} → match ${matchId} (socket: ${socket.id})`);
 
       // Validate payload
       if (!matchId || !nickname) {
-        socket.emit('player:join:error', {
+        const errorPayload: PlayerJoinErrorPayload = {
           error: 'Match ID and nickname are required',
-        });
+          code: 'INVALID_REQUEST',
+        };
+        socket.emit('player:join:error', errorPayload);
         return;
       }
 
@@ -41,6 +56,7 @@ export function registerPlayerHandlers(socket: Socket, roomManager: RoomManager)
         avatar,
         cityOptIn,
         city,
+        team,
         socketId: socket.id,
       });
 
@@ -64,9 +80,11 @@ export function registerPlayerHandlers(socket: Socket, roomManager: RoomManager)
       console.info(`✓ Player joined: ${nickname} (${result.player.id})`);
     } catch (error) {
       console.error('Error joining match:', error);
-      socket.emit('player:join:error', {
+      const errorPayload: PlayerJoinErrorPayload = {
         error: error instanceof Error ? error.message : 'Failed to join match',
-      });
+        code: error instanceof JoinMatchError ? error.code : 'JOIN_FAILED',
+      };
+      socket.emit('player:join:error', errorPayload);
     }
   });
 
@@ -79,7 +97,7 @@ export function registerPlayerHandlers(socket: Socket, roomManager: RoomManager)
 
       console.info(`Player leaving: ${playerId} from match ${matchId}`);
 
-      await leaveMatch(matchId, playerId);
+      const state = await leaveMatch(matchId, playerId);
 
       // Leave Socket.IO room
       const currentMatch = roomManager.getCurrentMatch(socket);
@@ -93,6 +111,11 @@ export function registerPlayerHandlers(socket: Socket, roomManager: RoomManager)
         timestamp: Date.now(),
       });
 
+      // The roster changed, and a waitlisted player may have been promoted
+      if (state) {
+        roomManager.broadcastToMatch(matchId, 'state:update', state);
+      }
+
       socket.emit('player:leave:success', {
         matchId,
         playerId,
@@ -110,9 +133,11 @@ export function registerPlayerHandlers(socket: Socket, roomManager: RoomManager)
    */
   socket.on('answer:submit', async (payload: AnswerSubmitPayload) => {
     try {
-      const { matchId, questionId, choice, clientLatencyMs } = payload;
+      const { matchId, questionId, choice } = payload;
+      const receivedAt = Date.now();
+      const latencyMs = socket.data.latencyMs ?? 0;
 
-      console.info(`Answer submitted: ${socket.id} → ${choice} (latency: ${clientLatencyMs}ms)`);
+      console.info(`Answer submitted: ${socket.id} → ${choice} (latency: ${latencyMs}ms)`);
 
       // Get player from socket
       const playerId = socket.data.user?.userId;
@@ -132,6 +157,30 @@ export function registerPlayerHandlers(socket: Socket, roomManager: RoomManager)
         return;
       }
 
+      if (player.role !== PlayerRole.PLAYER) {
+        socket.emit('answer:submit:error', {
+          error:
+            player.role === PlayerRole.WAITLISTED
+              ? 'You are on the waitlist for this match'
+              : 'Spectators cannot answer',
+        });
+        return;
+      }
+
+      // Home Run Derby answers only count toward the tie-breaker
+      const stateMachine = new MatchStateMachine(matchId);
+      const { phase } = await stateMachine.loadState();
+      if (phase === MatchPhase.TIEBREAK) {
+        await stateMachine.submitTiebreakAnswer(playerId, questionId, choice, receivedAt);
+
+        socket.emit('answer:submit:success', {
+          questionId,
+          submitted: true,
+          timestamp: Date.now(),
+        });
+        return;
+      }
+
       // Load match and question
       const match = await prisma.match.findUnique({
         where: { id: matchId },
@@ -155,7 +204,12 @@ export function registerPlayerHandlers(socket: Socket, roomManager: RoomManager)
         theme: string;
         questions: Question[];
       }>;
-      const question = innings[inningIdx]?.questions[questionIdx];
+      const question = getMatchQuestion(
+        innings,
+        match.answerKey as unknown as AnswerKey | null,
+        inningIdx,
+        questionIdx
+      );
 
       if (!question) {
         socket.emit('answer:submit:error', {
@@ -164,19 +218,36 @@ export function registerPlayerHandlers(socket: Socket, roomManager: RoomManager)
         return;
       }
 
-      // Submit answer and calculate score
+      // Check the answer window and record the answer under the match lock,
+      // so the timer cannot close the question between the two
       const settings = match.settings as unknown as MatchSettings;
-      const result = await submitAnswer(
-        {
-          matchId,
-          playerId,
-          questionId,
-          choice,
-          clientLatencyMs,
-        },
-        question,
-        settings
-      );
+
+      const result = await withMatchLock(matchId, async () => {
+        const state = await stateMachine.loadState();
+
+        if (!stateMachine.isAcceptingAnswers(questionId, receivedAt)) {
+          throw new Error(
+            state.phase === MatchPhase.PAUSED
+              ? 'Match is paused'
+              : 'Answering is closed for this question'
+          );
+        }
+
+        // Submit answer and calculate score
+        return submitAnswer(
+          {
+            matchId,
+            playerId,
+            questionId,
+            choice,
+            answerMs: measureAnswerMs(state.shownAt, receivedAt, latencyMs, settings.timerSec),
+            wager:
+              state.wager?.questionId === questionId ? state.wager.stakes[playerId] : undefined,
+          },
+          question,
+          settings
+        );
+      });
 
       // Acknowledge to player (don't reveal correctness yet)
       socket.emit('answer:submit:success', {
@@ -185,43 +256,8 @@ export function registerPlayerHandlers(socket: Socket, roomManager: RoomManager)
         timestamp: Date.now(),
       });
 
-      // Update leaderboard
-      const stateMachine = new MatchStateMachine(matchId);
-      await stateMachine.loadState();
-
-      // Calculate updated scores for all players
-      const players = await prisma.matchPlayer.findMany({
-        where: { matchId, leftAt: null },
-      });
-
-      const playerScores = await Promise.all(
-        players.map(async (p) => {
-          const answers = await prisma.matchAnswer.findMany({
-            where: { matchId, playerId: p.id },
-          });
-
-          const correct = answers.filter((a) => a.isCorrect).length;
-          const total = answers.length;
-          const runs = answers.reduce((sum, a) => {
-            if (!a.isCorrect) return sum;
-            return sum + (a.bonusAwarded ? 4 : 1);
-          }, 0);
-          const totalTimeMs = answers.reduce((sum, a) => sum + a.answerMs, 0);
-
-          return {
-            playerId: p.id,
-            nickname: p.nickname,
-            avatar: p.avatar || undefined,
-            runs,
-            correct,
-            total,
-            totalTimeMs,
-          };
-        })
-      );
-
-      // Update leaderboard in state
-      await stateMachine.updateLeaderboard(playerScores);
+      // The answer is already on the live leaderboard; publish it with the next broadcast
+      scheduleScoreBroadcast(matchId);
 
       console.info(
         `✓ Answer recorded: ${player.nickname} → ${result.isCorrect ? 'correct' : 'incorrect'} (${result.runsAwarded} runs)`
@@ -234,6 +270,53 @@ export function registerPlayerHandlers(socket: Socket, roomManager: RoomManager)
     }
   });
 
+  /**
+   * wager:submit - Player stakes runs on a wager question before it is shown
+   */
+  socket.on('wager:submit', async (payload: WagerSubmitPayload) => {
+    try {
+      const { matchId, questionId, amount } = payload;
+      const receivedAt = Date.now();
+
+      const playerId = socket.data.user?.userId;
+      if (!playerId) {
+        socket.emit('wager:submit:error', {
+          error: 'Player not authenticated',
+        });
+        return;
+      }
+
+      const player = await getPlayerById(playerId);
+      if (!player || player.matchId !== matchId) {
+        socket.emit('wager:submit:error', {
+          error: 'Player not found in match',
+        });
+        return;
+      }
+
+      if (player.role !== PlayerRole.PLAYER) {
+        socket.emit('wager:submit:error', {
+          error: 'Only players can wager',
+        });
+        return;
+      }
+
+      await new MatchStateMachine(matchId).submitWager(playerId, questionId, amount, receivedAt);
+
+      socket.emit('wager:submit:success', {
+        questionId,
+        amount,
+      });
+
+      console.info(`✓ Wager recorded: ${player.nickname} → ${amount} runs`);
+    } catch (error) {
+      console.error('Error submitting wager:', error);
+      socket.emit('wager:submit:error', {
+        error: error instanceof Error ? error.message : 'Failed to submit wager',
+      });
+    }
+  });
+
   // reaction:send - Send emoji reaction (Ticket 4.3)
   socket.on(
     'reaction:send',
@@ -281,6 +364,8 @@ export function registerPlayerHandlers(socket: Socket, roomManager: RoomManager)
           timestamp,
         });
 
+        await recordMatchEvent(matchId, 'reaction_sent', { emoji }, { actorId: playerId });
+
         console.info(`✓ Reaction broadcast: ${emoji} from ${playerId}`);
       } catch (error) {
         console.error('Error sending reaction:', error);
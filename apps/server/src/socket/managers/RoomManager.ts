@@ -2,16 +2,15 @@ import { Server, Socket } from 'socket.io';
 
 /**
  * Manages Socket.IO rooms for matches
- * Handles joining, leaving, and broadcasting to match rooms
+ * Handles joining, leaving, and broadcasting to match rooms. A socket's match
+ * is the room it is in besides its own, so the adapter keeps it right on every
+ * server instance, even when a room is moved from another one.
  */
 export class RoomManager {
   private io: Server;
-  // Map socketId -> matchId for quick lookups
-  private socketToMatch: Map<string, string>;
 
   constructor(io: Server) {
     this.io = io;
-    this.socketToMatch = new Map();
   }
 
   /**
@@ -19,15 +18,13 @@ export class RoomManager {
    */
   async joinMatch(socket: Socket, matchId: string): Promise<void> {
     // Leave previous match if any
-    const previousMatchId = this.socketToMatch.get(socket.id);
+    const previousMatchId = this.getCurrentMatch(socket);
     if (previousMatchId) {
       await this.leaveMatch(socket, previousMatchId);
     }
 
     // Join new match room
     await socket.join(matchId);
-    this.socketToMatch.set(socket.id, matchId);
-    socket.data.matchId = matchId;
 
     console.info(`Socket ${socket.id} joined match ${matchId}`);
   }
@@ -37,17 +34,26 @@ export class RoomManager {
    */
   async leaveMatch(socket: Socket, matchId: string): Promise<void> {
     await socket.leave(matchId);
-    this.socketToMatch.delete(socket.id);
-    socket.data.matchId = undefined;
 
     console.info(`Socket ${socket.id} left match ${matchId}`);
   }
 
+  /**
+   * Move every socket in one match room to another, on all server instances
+   */
+  moveMatch(fromMatchId: string, toMatchId: string): void {
+    this.io.in(fromMatchId).socketsJoin(toMatchId);
+    this.io.in(fromMatchId).socketsLeave(fromMatchId);
+
+    console.info(`Moved sockets from match ${fromMatchId} to ${toMatchId}`);
+  }
+
   /**
    * Get current match for a socket
+   * Sockets leave their rooms on disconnect, so read it while disconnecting.
    */
   getCurrentMatch(socket: Socket): string | undefined {
-    return this.socketToMatch.get(socket.id);
+    return [...socket.rooms].find((room) => room !== socket.id);
   }
 
   /**
@@ -81,11 +87,11 @@ export class RoomManager {
 
   /**
    * Clean up socket on disconnect
+   * Socket.IO takes the socket out of its rooms itself.
    */
   handleDisconnect(socket: Socket): void {
-    const matchId = this.socketToMatch.get(socket.id);
+    const matchId = this.getCurrentMatch(socket);
     if (matchId) {
-      this.socketToMatch.delete(socket.id);
       console.info(`Socket ${socket.id} disconnected from match ${matchId}`);
     }
   }
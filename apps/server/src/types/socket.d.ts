@@ -8,6 +8,8 @@ declare module 'socket.io' {
     data: {
       user?: TokenPayload;
       matchId?: string;
+      // One-way latency estimate, see latency.handler
+      latencyMs?: number;
     };
   }
 }
@@ -19,6 +19,7 @@ import type { PackData, PackMeta, Inning, Question } from '../validation/pack.va
  *
  * INNING,Players & Stats
  * closest,How many home runs did Jose Bautista hit in 2015?,40,home runs
+ * map,Where did the Blue Jays play their first home game?,exhibition-stadium,stadium
  */
 
 /**
@@ -225,8 +226,30 @@ function parseQuestionRow(row: string[]): Question {
       };
     }
 
+    case 'map': {
+      // Format: map,<text>,<correctPlace>[,<placeKind>]
+      if (row.length < 3) {
+        throw new Error('Map question must have text and correct place');
+      }
+
+      const text = row[1];
+      const correctPlace = row[2];
+      const placeKind = (row[3] || undefined) as 'city' | 'stadium' | undefined;
+
+      if (placeKind && placeKind !== 'city' && placeKind !== 'stadium') {
+        throw new Error('Place kind must be city or stadium');
+      }
+
+      return {
+        type: 'map',
+        text,
+        correctPlace,
+        placeKind,
+      };
+    }
+
     default:
-      throw new Error(`Unknown question type: ${type}. Must be mc, tf, closest, or media`);
+      throw new Error(`Unknown question type: ${type}. Must be mc, tf, closest, media, or map`);
   }
 }
 
@@ -0,0 +1,246 @@
+import type { MapPlace, MapPlaceKind } from '@jaysgame/shared';
+
+/**
+ * Offline gazetteer of the canonical cities and stadiums map questions use
+ * Bundled with the server so packs can be validated without a geocoding service.
+ */
+
+interface GazetteerEntry extends MapPlace {
+  // Other names the place goes by, e.g. a ballpark's former names
+  aliases?: string[];
+}
+
+const GAZETTEER: GazetteerEntry[] = [
+  // Ballparks
+  {
+    id: 'rogers-centre',
+    name: 'Rogers Centre',
+    kind: 'stadium',
+    lat: 43.6414,
+    lng: -79.3894,
+    aliases: ['SkyDome'],
+  },
+  {
+    id: 'exhibition-stadium',
+    name: 'Exhibition Stadium',
+    kind: 'stadium',
+    lat: 43.6332,
+    lng: -79.4186,
+  },
+  { id: 'td-ballpark', name: 'TD Ballpark', kind: 'stadium', lat: 28.0036, lng: -82.7868 },
+  { id: 'yankee-stadium', name: 'Yankee Stadium', kind: 'stadium', lat: 40.8296, lng: -73.9262 },
+  { id: 'fenway-park', name: 'Fenway Park', kind: 'stadium', lat: 42.3467, lng: -71.0972 },
+  {
+    id: 'camden-yards',
+    name: 'Oriole Park at Camden Yards',
+    kind: 'stadium',
+    lat: 39.284,
+    lng: -76.6217,
+  },
+  {
+    id: 'tropicana-field',
+    name: 'Tropicana Field',
+    kind: 'stadium',
+    lat: 27.7682,
+    lng: -82.6534,
+  },
+  {
+    id: 'steinbrenner-field',
+    name: 'George M. Steinbrenner Field',
+    kind: 'stadium',
+    lat: 27.9803,
+    lng: -82.5067,
+  },
+  {
+    id: 'progressive-field',
+    name: 'Progressive Field',
+    kind: 'stadium',
+    lat: 41.4962,
+    lng: -81.6852,
+    aliases: ['Jacobs Field'],
+  },
+  { id: 'comerica-park', name: 'Comerica Park', kind: 'stadium', lat: 42.339, lng: -83.0485 },
+  {
+    id: 'kauffman-stadium',
+    name: 'Kauffman Stadium',
+    kind: 'stadium',
+    lat: 39.0517,
+    lng: -94.4803,
+  },
+  { id: 'target-field', name: 'Target Field', kind: 'stadium', lat: 44.9817, lng: -93.2776 },
+  {
+    id: 'rate-field',
+    name: 'Rate Field',
+    kind: 'stadium',
+    lat: 41.8299,
+    lng: -87.6338,
+    aliases: ['Guaranteed Rate Field', 'U.S. Cellular Field', 'Comiskey Park'],
+  },
+  {
+    id: 'daikin-park',
+    name: 'Daikin Park',
+    kind: 'stadium',
+    lat: 29.7573,
+    lng: -95.3555,
+    aliases: ['Minute Maid Park', 'Enron Field'],
+  },
+  { id: 'angel-stadium', name: 'Angel Stadium', kind: 'stadium', lat: 33.8003, lng: -117.8827 },
+  {
+    id: 'oakland-coliseum',
+    name: 'Oakland Coliseum',
+    kind: 'stadium',
+    lat: 37.7516,
+    lng: -122.2005,
+  },
+  {
+    id: 'sutter-health-park',
+    name: 'Sutter Health Park',
+    kind: 'stadium',
+    lat: 38.5804,
+    lng: -121.5136,
+  },
+  {
+    id: 't-mobile-park',
+    name: 'T-Mobile Park',
+    kind: 'stadium',
+    lat: 47.5914,
+    lng: -122.3325,
+    aliases: ['Safeco Field'],
+  },
+  {
+    id: 'globe-life-field',
+    name: 'Globe Life Field',
+    kind: 'stadium',
+    lat: 32.7473,
+    lng: -97.0847,
+  },
+  { id: 'truist-park', name: 'Truist Park', kind: 'stadium', lat: 33.8908, lng: -84.4678 },
+  {
+    id: 'loandepot-park',
+    name: 'loanDepot park',
+    kind: 'stadium',
+    lat: 25.7781,
+    lng: -80.2197,
+    aliases: ['Marlins Park'],
+  },
+  { id: 'citi-field', name: 'Citi Field', kind: 'stadium', lat: 40.7571, lng: -73.8458 },
+  {
+    id: 'citizens-bank-park',
+    name: 'Citizens Bank Park',
+    kind: 'stadium',
+    lat: 39.9061,
+    lng: -75.1665,
+  },
+  { id: 'nationals-park', name: 'Nationals Park', kind: 'stadium', lat: 38.873, lng: -77.0074 },
+  { id: 'wrigley-field', name: 'Wrigley Field', kind: 'stadium', lat: 41.9484, lng: -87.6553 },
+  {
+    id: 'great-american-ball-park',
+    name: 'Great American Ball Park',
+    kind: 'stadium',
+    lat: 39.0979,
+    lng: -84.5082,
+  },
+  {
+    id: 'american-family-field',
+    name: 'American Family Field',
+    kind: 'stadium',
+    lat: 43.028,
+    lng: -87.9712,
+    aliases: ['Miller Park'],
+  },
+  { id: 'pnc-park', name: 'PNC Park', kind: 'stadium', lat: 40.4469, lng: -80.0057 },
+  { id: 'busch-stadium', name: 'Busch Stadium', kind: 'stadium', lat: 38.6226, lng: -90.1928 },
+  { id: 'chase-field', name: 'Chase Field', kind: 'stadium', lat: 33.4455, lng: -112.0667 },
+  { id: 'coors-field', name: 'Coors Field', kind: 'stadium', lat: 39.7559, lng: -104.9942 },
+  { id: 'dodger-stadium', name: 'Dodger Stadium', kind: 'stadium', lat: 34.0739, lng: -118.24 },
+  { id: 'petco-park', name: 'Petco Park', kind: 'stadium', lat: 32.7076, lng: -117.157 },
+  {
+    id: 'oracle-park',
+    name: 'Oracle Park',
+    kind: 'stadium',
+    lat: 37.7786,
+    lng: -122.3893,
+    aliases: ['AT&T Park', 'Pac Bell Park'],
+  },
+  {
+    id: 'olympic-stadium',
+    name: 'Olympic Stadium',
+    kind: 'stadium',
+    lat: 45.558,
+    lng: -73.5515,
+  },
+  { id: 'tokyo-dome', name: 'Tokyo Dome', kind: 'stadium', lat: 35.7056, lng: 139.7519 },
+
+  // Cities
+  { id: 'toronto', name: 'Toronto', kind: 'city', lat: 43.6532, lng: -79.3832 },
+  { id: 'dunedin', name: 'Dunedin', kind: 'city', lat: 28.0197, lng: -82.7718 },
+  { id: 'montreal', name: 'Montreal', kind: 'city', lat: 45.5017, lng: -73.5673 },
+  { id: 'vancouver', name: 'Vancouver', kind: 'city', lat: 49.2827, lng: -123.1207 },
+  { id: 'new-york', name: 'New York', kind: 'city', lat: 40.7128, lng: -74.006 },
+  { id: 'boston', name: 'Boston', kind: 'city', lat: 42.3601, lng: -71.0589 },
+  { id: 'baltimore', name: 'Baltimore', kind: 'city', lat: 39.2904, lng: -76.6122 },
+  { id: 'tampa', name: 'Tampa', kind: 'city', lat: 27.9506, lng: -82.4572 },
+  { id: 'st-petersburg', name: 'St. Petersburg', kind: 'city', lat: 27.7676, lng: -82.6403 },
+  { id: 'cleveland', name: 'Cleveland', kind: 'city', lat: 41.4993, lng: -81.6944 },
+  { id: 'detroit', name: 'Detroit', kind: 'city', lat: 42.3314, lng: -83.0458 },
+  { id: 'kansas-city', name: 'Kansas City', kind: 'city', lat: 39.0997, lng: -94.5786 },
+  { id: 'minneapolis', name: 'Minneapolis', kind: 'city', lat: 44.9778, lng: -93.265 },
+  { id: 'chicago', name: 'Chicago', kind: 'city', lat: 41.8781, lng: -87.6298 },
+  { id: 'houston', name: 'Houston', kind: 'city', lat: 29.7604, lng: -95.3698 },
+  { id: 'anaheim', name: 'Anaheim', kind: 'city', lat: 33.8366, lng: -117.9143 },
+  { id: 'los-angeles', name: 'Los Angeles', kind: 'city', lat: 34.0522, lng: -118.2437 },
+  { id: 'oakland', name: 'Oakland', kind: 'city', lat: 37.8044, lng: -122.2712 },
+  { id: 'sacramento', name: 'Sacramento', kind: 'city', lat: 38.5816, lng: -121.4944 },
+  { id: 'seattle', name: 'Seattle', kind: 'city', lat: 47.6062, lng: -122.3321 },
+  { id: 'arlington', name: 'Arlington', kind: 'city', lat: 32.7357, lng: -97.1081 },
+  { id: 'atlanta', name: 'Atlanta', kind: 'city', lat: 33.749, lng: -84.388 },
+  { id: 'miami', name: 'Miami', kind: 'city', lat: 25.7617, lng: -80.1918 },
+  { id: 'philadelphia', name: 'Philadelphia', kind: 'city', lat: 39.9526, lng: -75.1652 },
+  { id: 'washington', name: 'Washington, D.C.', kind: 'city', lat: 38.9072, lng: -77.0369 },
+  { id: 'cincinnati', name: 'Cincinnati', kind: 'city', lat: 39.1031, lng: -84.512 },
+  { id: 'milwaukee', name: 'Milwaukee', kind: 'city', lat: 43.0389, lng: -87.9065 },
+  { id: 'pittsburgh', name: 'Pittsburgh', kind: 'city', lat: 40.4406, lng: -79.9959 },
+  { id: 'st-louis', name: 'St. Louis', kind: 'city', lat: 38.627, lng: -90.1994 },
+  { id: 'phoenix', name: 'Phoenix', kind: 'city', lat: 33.4484, lng: -112.074 },
+  { id: 'denver', name: 'Denver', kind: 'city', lat: 39.7392, lng: -104.9903 },
+  { id: 'san-diego', name: 'San Diego', kind: 'city', lat: 32.7157, lng: -117.1611 },
+  { id: 'san-francisco', name: 'San Francisco', kind: 'city', lat: 37.7749, lng: -122.4194 },
+  { id: 'tokyo', name: 'Tokyo', kind: 'city', lat: 35.6762, lng: 139.6503 },
+  { id: 'seoul', name: 'Seoul', kind: 'city', lat: 37.5665, lng: 126.978 },
+  { id: 'mexico-city', name: 'Mexico City', kind: 'city', lat: 19.4326, lng: -99.1332 },
+  { id: 'havana', name: 'Havana', kind: 'city', lat: 23.1136, lng: -82.3666 },
+  { id: 'santo-domingo', name: 'Santo Domingo', kind: 'city', lat: 18.4861, lng: -69.9312 },
+  { id: 'san-juan', name: 'San Juan', kind: 'city', lat: 18.4655, lng: -66.1057 },
+  { id: 'london', name: 'London', kind: 'city', lat: 51.5074, lng: -0.1278 },
+];
+
+/**
+ * Strip a gazetteer entry down to the place clients see
+ */
+function toMapPlace(entry: GazetteerEntry): MapPlace {
+  return { id: entry.id, name: entry.name, kind: entry.kind, lat: entry.lat, lng: entry.lng };
+}
+
+/**
+ * Find a place by its ID, name or one of its former names, ignoring case
+ */
+export function findPlace(query: string): MapPlace | undefined {
+  const key = query.trim().toLowerCase();
+  const entry = GAZETTEER.find(
+    (place) =>
+      place.id === key ||
+      place.name.toLowerCase() === key ||
+      place.aliases?.some((alias) => alias.toLowerCase() === key)
+  );
+
+  return entry && toMapPlace(entry);
+}
+
+/**
+ * List the gazetteer's places, optionally only those of one kind, by name
+ */
+export function listPlaces(kind?: MapPlaceKind): MapPlace[] {
+  return GAZETTEER.filter((place) => !kind || place.kind === kind)
+    .map(toMapPlace)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
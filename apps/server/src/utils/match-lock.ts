@@ -0,0 +1,78 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { redisClient } from '../config/redis';
+
+/**
+ * Per-match distributed lock
+ *
+ * Serializes every read-modify-write of a match's Redis state across all server
+ * instances. The lock is reentrant within one async call chain, so state machine
+ * methods that call each other (e.g. nextQuestion -> endMatch) do not deadlock.
+ */
+
+const LOCK_TTL_MS = 15000;
+const LOCK_RENEW_INTERVAL_MS = 5000;
+const LOCK_RETRY_DELAY_MS = 20;
+const LOCK_ACQUIRE_TIMEOUT_MS = 10000;
+
+/**
+ * Delete the lock only if we still own it
+ */
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Extend the lock only if we still own it
+ */
+const RENEW_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+// Match IDs whose lock is held by the current async call chain
+const heldLocks = new AsyncLocalStorage<Set<string>>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run `fn` while holding the lock for a match
+ */
+export async function withMatchLock<T>(matchId: string, fn: () => Promise<T>): Promise<T> {
+  const held = heldLocks.getStore();
+  if (held?.has(matchId)) {
+    return fn();
+  }
+
+  const key = `match:${matchId}:lock`;
+  const token = randomUUID();
+  const deadline = Date.now() + LOCK_ACQUIRE_TIMEOUT_MS;
+
+  while (!(await redisClient.set(key, token, 'PX', LOCK_TTL_MS, 'NX'))) {
+    if (Date.now() >= deadline) {
+      throw new Error('Match is busy. Please try again.');
+    }
+    await sleep(LOCK_RETRY_DELAY_MS);
+  }
+
+  // Keep the lock alive for long-running commands
+  const renewTimer = setInterval(() => {
+    redisClient.eval(RENEW_SCRIPT, 1, key, token, LOCK_TTL_MS).catch((error) => {
+      console.error(`Failed to renew lock for match ${matchId}:`, error);
+    });
+  }, LOCK_RENEW_INTERVAL_MS);
+
+  try {
+    return await heldLocks.run(new Set([...(held ?? []), matchId]), fn);
+  } finally {
+    clearInterval(renewTimer);
+    await redisClient.eval(RELEASE_SCRIPT, 1, key, token);
+  }
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { findPlace } from '../utils/gazetteer';
 
 /**
  * Pack Metadata Validation
@@ -23,6 +24,8 @@ const baseQuestionSchema = z.object({
   mediaUrl: z.string().url('Invalid media URL').optional(),
   clipUrl: z.string().url('Invalid clip URL').optional(),
   clipTimestamp: z.string().optional(),
+  grandSlam: z.boolean().optional(),
+  wager: z.boolean().optional(),
 });
 
 /**
@@ -49,6 +52,26 @@ const closestQuestionSchema = baseQuestionSchema.extend({
   type: z.literal('closest'),
   correctValue: z.number(),
   unit: z.string().optional(),
+  scoring: z
+    .object({
+      exactBonus: z.number().int().min(0).optional(),
+      bands: z
+        .array(
+          z.object({
+            mode: z.enum(['percent', 'absolute']),
+            tolerance: z.number().min(0),
+            runs: z.number().int().min(1),
+          })
+        )
+        .optional(),
+      nearest: z
+        .object({
+          count: z.number().int().min(1),
+          runs: z.number().int().min(1),
+        })
+        .optional(),
+    })
+    .optional(),
 });
 
 /**
@@ -61,6 +84,28 @@ const mediaQuestionSchema = baseQuestionSchema.extend({
   correctIndex: z.number().int().min(0, 'Correct index must be >= 0'),
 });
 
+/**
+ * Map Question (a city or stadium, answered by distance)
+ */
+const mapQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal('map'),
+  correctPlace: z.string().min(1, 'Map questions require a correctPlace'),
+  placeKind: z.enum(['city', 'stadium']).optional(),
+  scoring: z
+    .object({
+      exactBonus: z.number().int().min(0).optional(),
+      bands: z
+        .array(
+          z.object({
+            radiusKm: z.number().positive(),
+            runs: z.number().int().min(1),
+          })
+        )
+        .optional(),
+    })
+    .optional(),
+});
+
 /**
  * Union of all question types
  */
@@ -69,6 +114,7 @@ export const questionSchema = z.discriminatedUnion('type', [
   trueFalseQuestionSchema,
   closestQuestionSchema,
   mediaQuestionSchema,
+  mapQuestionSchema,
 ]);
 
 /**
@@ -91,6 +137,10 @@ export const packSchema = z.object({
     .array(inningSchema)
     .min(1, 'Pack must have at least 1 inning')
     .max(9, 'Pack can have maximum 9 innings'),
+  tiebreak: z
+    .array(trueFalseQuestionSchema)
+    .max(20, 'Pack can have maximum 20 tie-break questions')
+    .optional(),
   tags: z.array(z.string()).optional().default([]),
   isKidsSafe: z.boolean().optional().default(false),
 });
@@ -119,6 +169,25 @@ export function validateQuestionCorrectIndex(question: z.infer<typeof questionSc
   return true;
 }
 
+/**
+ * Validate a map question's answer against the bundled gazetteer
+ * @returns An error message, or null when the place is known and of the question's kind
+ */
+export function validateMapPlace(question: z.infer<typeof questionSchema>): string | null {
+  if (question.type !== 'map') {
+    return null;
+  }
+
+  const place = findPlace(question.correctPlace);
+  if (!place) {
+    return `Unknown map place "${question.correctPlace}"`;
+  }
+  if (question.placeKind && place.kind !== question.placeKind) {
+    return `Map place "${place.name}" is not a ${question.placeKind}`;
+  }
+  return null;
+}
+
 /**
  * Validate complete pack with custom rules
  */
@@ -138,6 +207,10 @@ export function validatePack(pack: z.infer<typeof packSchema>): {
           `Inning ${inningIdx + 1}, Question ${questionIdx + 1}: Correct index out of bounds`
         );
       }
+      const placeError = validateMapPlace(question);
+      if (placeError) {
+        errors.push(`Inning ${inningIdx + 1}, Question ${questionIdx + 1}: ${placeError}`);
+      }
     });
   });
 
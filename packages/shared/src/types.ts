@@ -35,6 +35,10 @@ export interface BaseQuestion {
   mediaUrl?: string;
   clipUrl?: string;
   clipTimestamp?: string;
+  // Worth 4 runs to everyone who gets it right; defaults to the last question of the pack
+  grandSlam?: boolean;
+  // Players stake some of their runs before the question text is shown
+  wager?: boolean;
 }
 
 export interface MultipleChoiceQuestion extends BaseQuestion {
@@ -52,6 +56,24 @@ export interface ClosestQuestion extends BaseQuestion {
   type: 'closest';
   correctValue: number;
   unit?: string;
+  // Defaults to 1 run for the nearest answer(s)
+  scoring?: ClosestScoring;
+}
+
+// A tolerance around the correct value, as a percentage of it or in its units
+export interface ClosestBand {
+  mode: 'percent' | 'absolute';
+  tolerance: number;
+  runs: number;
+}
+
+export interface ClosestScoring {
+  // Extra runs for hitting the value exactly
+  exactBonus?: number;
+  // An answer earns the runs of the best band it falls in
+  bands?: ClosestBand[];
+  // Runs for the N nearest answers, ties included
+  nearest?: { count: number; runs: number };
 }
 
 export interface MediaQuestion extends BaseQuestion {
@@ -61,7 +83,47 @@ export interface MediaQuestion extends BaseQuestion {
   correctIndex: number;
 }
 
-export type Question = MultipleChoiceQuestion | TrueFalseQuestion | ClosestQuestion | MediaQuestion;
+// Players answer a map question with a place ID from the gazetteer or a "lat,lng" pin
+export interface MapQuestion extends BaseQuestion {
+  type: 'map';
+  // ID of the gazetteer place that is the answer
+  correctPlace: string;
+  // Only offer places of this kind to pick from; any place otherwise
+  placeKind?: MapPlaceKind;
+  // Defaults to 1 run for answers within 50 km
+  scoring?: MapScoring;
+}
+
+export type MapPlaceKind = 'city' | 'stadium';
+
+// A canonical city or stadium from the gazetteer
+export interface MapPlace {
+  id: string;
+  name: string;
+  kind: MapPlaceKind;
+  lat: number;
+  lng: number;
+}
+
+// A distance from the answer, in kilometres, an answer earns runs within
+export interface MapBand {
+  radiusKm: number;
+  runs: number;
+}
+
+export interface MapScoring {
+  // Extra runs for picking the place itself
+  exactBonus?: number;
+  // An answer earns the runs of the best band it falls in
+  bands?: MapBand[];
+}
+
+export type Question =
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | ClosestQuestion
+  | MediaQuestion
+  | MapQuestion;
 
 export interface Inning {
   theme: string;
@@ -73,6 +135,8 @@ export interface Pack {
   ownerId: string;
   meta: PackMeta;
   innings: Inning[];
+  // Home Run Derby questions used to break ties at the end of a match
+  tiebreak?: TrueFalseQuestion[];
   tags: string[];
   isFeatured: boolean;
   isKidsSafe: boolean;
@@ -99,42 +163,114 @@ export enum MatchPhase {
   QUESTION = 'question',
   REVEAL = 'reveal',
   STRETCH = 'stretch',
+  PAUSED = 'paused',
+  INTERMISSION = 'intermission',
+  // Players stake runs on the next question before it is shown
+  WAGER = 'wager',
+  TIEBREAK = 'tiebreak',
   POSTGAME = 'postgame',
 }
 
 export interface MatchSettings {
   grandSlam: boolean;
   speedBonus: boolean;
+  // How many of the fastest correct answers earn the speed bonus, and its runs
+  speedBonusCount: number;
+  speedBonusRuns: number;
+  streakBonus: boolean;
+  // Extra runs each time a hit streak reaches a multiple of its length
+  streakBonusLength: number;
+  streakBonusRuns: number;
+  scoring: ScoringPreset;
   timerSec: number;
   allowReactions: boolean;
   allowHeckles: boolean;
+  // Reveal every guess to a map question, not only the answer
   showMap: boolean;
+  autoReveal: boolean;
+  autopilot: AutopilotSettings;
+  join: JoinSettings;
+  teams: TeamSettings;
+}
+
+// How runs are scored: classic, chill (no points for speed) or hardcore (wrong answers cost a run)
+export type ScoringPreset = 'classic' | 'chill' | 'hardcore';
+
+// When new players may join: any time, until a given inning, only in the lobby,
+// or any time but as spectators once the match has started
+export type JoinPolicy = 'open' | 'until_inning' | 'lobby_only' | 'spectate_late';
+
+export interface JoinSettings {
+  policy: JoinPolicy;
+  // Last inning (1-based) new players may join in, for 'until_inning'
+  untilInning: number;
+  // Players beyond this are waitlisted; null for no cap
+  maxPlayers: number | null;
+}
+
+// How a team's runs for a question come from its members' answers: the best
+// answer, the answer most of the team gave, or every member's runs added up
+export type TeamScoring = 'best_answer' | 'majority' | 'sum';
+
+export interface TeamSettings {
+  // Players score for their team as well as on their own
+  enabled: boolean;
+  scoring: TeamScoring;
+  // Players may start a new team when they join, not only pick the host's
+  allowPlayerTeams: boolean;
+}
+
+export interface AutopilotSettings {
+  // Run the match without a host: reveal, advance and stretch automatically
+  enabled: boolean;
+  // Seconds the reveal stays up before the next question
+  revealDwellSec: number;
+  // Extra seconds between innings
+  inningBreakSec: number;
+  // Play the 7th inning stretch
+  stretch: boolean;
 }
 
 export interface Match {
   id: string;
   hostId: string;
   packId: string;
-  joinCode: string;
+  // Freed when the match is abandoned
+  joinCode: string | null;
   mode: MatchMode;
   status: MatchStatus;
   settings: MatchSettings;
+  scheduledStartAt?: Date;
   startedAt?: Date;
   endedAt?: Date;
   createdAt: Date;
 }
 
+export enum PlayerRole {
+  PLAYER = 'PLAYER',
+  SPECTATOR = 'SPECTATOR',
+  WAITLISTED = 'WAITLISTED',
+}
+
 export interface MatchPlayer {
   id: string;
   matchId: string;
   nickname: string;
+  // Only players answer and appear on the leaderboard; defaults to PLAYER
+  role?: PlayerRole;
   avatar?: string;
   city?: string;
   socketId?: string;
+  teamId?: string;
   joinedAt: Date;
   leftAt?: Date;
 }
 
+export interface Team {
+  id: string;
+  name: string;
+}
+
 export interface MatchAnswer {
   id: string;
   matchId: string;
@@ -145,6 +281,12 @@ export interface MatchAnswer {
   isCorrect: boolean;
   answerMs: number;
   bonusAwarded: boolean;
+  // Runs earned, including any Grand Slam, speed bonus, streak bonus and wager payout
+  runsAwarded: number;
+  speedBonus: boolean;
+  streakBonus: boolean;
+  // Runs staked on a wager question
+  wager: number;
   createdAt: Date;
 }
 
@@ -159,6 +301,39 @@ export interface PlayerScore {
   totalTimeMs: number;
 }
 
+// A player's box score: runs by inning, hits (correct answers), errors (wrong
+// answers) and left on base (questions played without an answer)
+export interface PlayerBoxScore {
+  playerId: string;
+  nickname: string;
+  avatar?: string;
+  // Runs per inning; null for innings not yet played
+  innings: (number | null)[];
+  runs: number;
+  hits: number;
+  errors: number;
+  leftOnBase: number;
+}
+
+// A player's hit streak: consecutive correct answers, broken by a wrong or missing answer
+export interface PlayerStreak {
+  playerId: string;
+  nickname: string;
+  current: number;
+  longest: number;
+}
+
+export interface TeamScore {
+  teamId: string;
+  name: string;
+  runs: number;
+  // Members playing for the team
+  players: number;
+}
+
+// Runs per inning for each team, keyed by team ID; null for innings not yet played
+export type TeamLineScore = Record<string, (number | null)[]>;
+
 export interface QuestionPayload {
   id: string;
   type: QuestionType;
@@ -168,6 +343,49 @@ export interface QuestionPayload {
   timerSec: number;
   inning: number;
   questionIdx: number;
+  grandSlam: boolean;
+  // Players staked runs on this question
+  wager?: boolean;
+  // Unit of a closest question's answer (e.g., "feet")
+  unit?: string;
+  // Places a map question's answer can be picked from
+  places?: MapPlace[];
+}
+
+export interface SeriesGame {
+  gameNumber: number;
+  startInning: number;
+  endInning: number;
+  winnerId?: string;
+}
+
+export interface SeriesState {
+  totalGames: number;
+  gamesToWin: number;
+  // Index into `games` of the game being played
+  currentGame: number;
+  games: SeriesGame[];
+  // Games won, keyed by player ID
+  wins: Record<string, number>;
+  winnerId?: string;
+}
+
+export interface TiebreakState {
+  // Players still in the Home Run Derby
+  playerIds: string[];
+  // Index of the current tie-break question
+  round: number;
+  // Correct tie-break answers, keyed by player ID
+  correct: Record<string, number>;
+  suddenDeath: boolean;
+  winnerId?: string;
+}
+
+export interface WagerState {
+  // The question the stakes are on; its text is only shown once wagering closes
+  questionId: string;
+  // Runs staked, keyed by player ID
+  stakes: Record<string, number>;
 }
 
 export interface MatchState {
@@ -177,9 +395,34 @@ export interface MatchState {
   questionIdx: number;
   question?: QuestionPayload;
   endsAt?: number;
+  lockedAt?: number;
+  pausedAt?: number;
+  remainingMs?: number;
+  resumePhase?: MatchPhase;
+  stretchPlayed?: boolean;
+  series?: SeriesState;
+  tiebreak?: TiebreakState;
+  // Stakes on the current wager question
+  wager?: WagerState;
+  // When the current question was shown; answer times are measured from here
+  shownAt?: number;
+  // When autopilot will move on from the current reveal or intermission
+  autoAdvanceAt?: number;
+  // When a scheduled match will start on its own from the lobby
+  scheduledStartAt?: number;
   lineScore: (number | null)[];
   leaderboard: PlayerScore[];
   players: MatchPlayer[];
+  // Updated at each reveal
+  boxScore?: PlayerBoxScore[];
+  // Updated at each reveal
+  streaks?: PlayerStreak[];
+  // Only for matches played in teams
+  teams?: Team[];
+  teamLeaderboard?: TeamScore[];
+  teamLineScore?: TeamLineScore;
+  // Incremented on every saved change; clients drop updates older than what they have
+  version: number;
 }
 
 // ===== Socket Events =====
@@ -191,13 +434,30 @@ export interface PlayerJoinPayload {
   avatar?: string;
   cityOptIn: boolean;
   city?: string;
+  // Name of the team to play for; omitted to be placed on the smallest team
+  team?: string;
 }
 
 export interface AnswerSubmitPayload {
   matchId: string;
   questionId: string;
   choice: string;
-  clientLatencyMs: number;
+}
+
+export interface WagerSubmitPayload {
+  matchId: string;
+  questionId: string;
+  // Runs to stake, up to the player's current runs
+  amount: number;
+}
+
+// Round-trip latency probe; the client echoes the ping ID straight back
+export interface LatencyPingPayload {
+  pingId: number;
+}
+
+export interface LatencyPongPayload {
+  pingId: number;
 }
 
 export interface ReactionSendPayload {
@@ -205,18 +465,71 @@ export interface ReactionSendPayload {
   emoji: string;
 }
 
-export type HostAction = 'start' | 'pause' | 'resume' | 'skip' | 'reveal' | 'stretch';
+export type HostAction =
+  | 'start'
+  | 'pause'
+  | 'resume'
+  | 'skip'
+  | 'reveal'
+  | 'stretch'
+  | 'recover'
+  | 'correct'
+  | 'undo';
 
 export interface HostActionPayload {
   matchId: string;
   action: HostAction;
+  // Required for the 'correct' action
+  correction?: AnswerCorrection;
+}
+
+export interface HostRematchPayload {
+  matchId: string;
+  // Defaults to the finished match's pack
+  packId?: string;
+}
+
+// Correct-answer fields a host can override; which one applies depends on the question type
+export interface AnswerKeyOverride {
+  correctIndex?: number;
+  correctAnswer?: boolean;
+  correctValue?: number;
+  correctPlace?: string;
+}
+
+// Host corrections to a pack's answers, keyed by "inning:questionIdx"
+export type AnswerKey = Record<string, AnswerKeyOverride>;
+
+export interface AnswerCorrection extends AnswerKeyOverride {
+  inning: number;
+  questionIdx: number;
 }
 
 // Server → Client
+export interface MatchRematchPayload {
+  previousMatchId: string;
+  matchId: string;
+  joinCode: string;
+  // New player ID for each player carried over, keyed by their ID in the previous match
+  playerIds: Record<string, string>;
+}
+
 export interface PlayerJoinedPayload {
   player: MatchPlayer;
 }
 
+export type JoinErrorCode =
+  | 'INVALID_REQUEST'
+  | 'MATCH_NOT_FOUND'
+  | 'MATCH_ENDED'
+  | 'JOIN_CLOSED'
+  | 'JOIN_FAILED';
+
+export interface PlayerJoinErrorPayload {
+  error: string;
+  code: JoinErrorCode;
+}
+
 export interface PlayerLeftPayload {
   playerId: string;
 }
@@ -226,6 +539,19 @@ export interface QuestionShowPayload {
   endsAt: number;
 }
 
+// Wagering opened on a question whose text is still hidden
+export interface WagerOpenPayload {
+  questionId: string;
+  inning: number;
+  questionIdx: number;
+  endsAt: number;
+}
+
+export interface QuestionLockedPayload {
+  questionId: string;
+  lockedAt: number;
+}
+
 export interface QuestionRevealPayload {
   questionId: string;
   correctAnswer: string;
@@ -236,12 +562,65 @@ export interface QuestionRevealPayload {
     nickname: string;
     isCorrect: boolean;
     runsAwarded: number;
+    // Among the fastest correct answers
+    speedBonus: boolean;
+    // Extended a hit streak to a bonus length
+    streakBonus?: boolean;
+    // How far a closest-question guess was from the correct value, or a map guess from the place in km
+    distance?: number;
+    // Runs staked on a wager question, won or lost with the answer
+    wager?: number;
   }>;
+  closest?: ClosestSpread;
+  map?: MapReveal;
+}
+
+// Where a map question's answer is, and with the match's map on, everyone's guesses
+export interface MapReveal {
+  place: MapPlace;
+  guesses?: Array<{ playerId: string; lat: number; lng: number; distanceKm: number }>;
+}
+
+// How the guesses to a closest question were spread
+export interface ClosestSpread {
+  correctValue: number;
+  unit?: string;
+  count: number;
+  min: number | null;
+  max: number | null;
+  median: number | null;
 }
 
 export interface ScoreUpdatePayload {
   leaderboard: PlayerScore[];
   lineScore: (number | null)[];
+  boxScore?: PlayerBoxScore[];
+  streaks?: PlayerStreak[];
+  teamLeaderboard?: TeamScore[];
+  teamLineScore?: TeamLineScore;
+}
+
+export interface StreakChange {
+  playerId: string;
+  nickname: string;
+  // Length of the streak that started, or of the one that was snapped
+  streak: number;
+}
+
+// Streaks that started or were snapped at a reveal
+export interface StreakChangePayload {
+  questionId: string;
+  players: StreakChange[];
+}
+
+export interface MatchPausedPayload {
+  pausedAt: number;
+  remainingMs?: number;
+}
+
+export interface MatchResumedPayload {
+  resumedAt: number;
+  endsAt?: number;
 }
 
 export interface ReactionBroadcastPayload {
@@ -255,10 +634,74 @@ export interface StretchStartPayload {
   durationSec: number;
 }
 
+export interface GameEndPayload {
+  gameNumber: number;
+  winnerId?: string;
+  standings: PlayerScore[];
+  series: SeriesState;
+}
+
+export interface AnswerCorrectedPayload {
+  questionId: string;
+  inning: number;
+  questionIdx: number;
+  correctAnswer: string;
+  leaderboard: PlayerScore[];
+  lineScore: (number | null)[];
+}
+
+export interface RevealUndonePayload {
+  questionId: string;
+  endsAt: number;
+}
+
+export interface TiebreakStartPayload {
+  playerIds: string[];
+  rounds: number;
+}
+
+export interface TiebreakRoundResult {
+  playerId: string;
+  choice?: string;
+  isCorrect: boolean;
+}
+
+export interface TiebreakResultPayload {
+  questionId: string;
+  correctAnswer: string | number | boolean;
+  results: TiebreakRoundResult[];
+  tiebreak: TiebreakState;
+}
+
 export interface MatchEndPayload {
   finalScores: PlayerScore[];
   mvp: string;
   shareCardUrl?: string;
+  series?: SeriesState;
+  // Set when the match was closed for inactivity rather than played out
+  abandoned?: boolean;
+}
+
+// ===== Match Event Log =====
+export type MatchEventType =
+  | 'state_changed'
+  | 'host_action'
+  | 'player_joined'
+  | 'player_left'
+  | 'answer_submitted'
+  | 'wager_submitted'
+  | 'score_updated'
+  | 'streak_changed'
+  | 'reaction_sent'
+  | 'match_abandoned';
+
+export interface MatchEvent {
+  seq: number;
+  matchId: string;
+  type: MatchEventType;
+  actorId?: string;
+  payload: Record<string, unknown>;
+  createdAt: Date;
 }
 
 // ===== Analytics =====